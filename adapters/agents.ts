@@ -0,0 +1,18 @@
+import { join } from "path";
+import { createSkillDirAdapter } from "./skill-dir.ts";
+
+// The shared ~/.agents/skills standard, read natively by Codex
+export const agentsAdapter = createSkillDirAdapter({
+  id: "agents",
+  label: "Agents",
+  capabilities: {
+    scopes: ["global", "project"],
+    skills: true,
+    agents: true,
+    toClaude: true,
+    docs: "bidirectional",
+  },
+  skillsDir: (ctx) => ctx.agentsSkillsDir,
+  docPath: (root) => join(root, "AGENTS.md"),
+  overrideDocPath: (root) => join(root, "AGENTS.override.md"),
+});
@@ -1,29 +1,40 @@
 import matter from "gray-matter";
 import { existsSync } from "fs";
-import { copyFile, mkdir, readdir, readFile } from "fs/promises";
-import { basename, join } from "path";
+import { readFile } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { backupPath } from "../backup.ts";
+import { recordDelete } from "../preview.ts";
+import {
+  copyTree,
+  itemAction,
+  removeStaleFiles,
+  writeOutput,
+  type WriteAction,
+  type WrittenFile,
+} from "./copy.ts";
+import { discoverSkillDirs } from "./discover.ts";
+import { hasClaudeMetadata, toClaudeFrontmatter } from "./frontmatter.ts";
+import { DEFAULT_RULES, restoreRules, type RewriteRule } from "./rules.ts";
+import {
+  parseProvenance,
+  stripProvenanceHeader,
+  type OriginKind,
+} from "./provenance.ts";
+import type { SyncedSkill } from "./skill.ts";
+import type { ItemKind, MigrationResult, SyncAdapter } from "./types.ts";
 
 export interface SyncedClaudeItem {
   name: string;
   outputPath: string;
-  files: string[];
-  kind: "skill" | "agent";
+  action: WriteAction;
+  files: WrittenFile[];
+  // Files left from an earlier sync that the source no longer has
+  removed?: string[];
+  kind: ItemKind;
 }
 
-const AUTO_HEADER_RE = /^>\s*Auto-generated from .* by sync-agents\s*\n\n?/i;
-const AUTO_AGENT_RE = /^>\s*Auto-generated from Claude Code agent\b/i;
-const AUTO_SKILL_RE = /^>\s*Auto-generated from Claude Code skill\b/i;
-
-function detectOriginKind(content: string): "agent" | "skill" | "unknown" {
-  const trimmed = content.trimStart();
-  const firstLine = trimmed.split("\n", 1)[0] ?? "";
-  if (AUTO_AGENT_RE.test(firstLine)) return "agent";
-  if (AUTO_SKILL_RE.test(firstLine)) return "skill";
-  return "unknown";
-}
-
-function stripAutoHeader(content: string): string {
-  return content.replace(AUTO_HEADER_RE, "");
+function detectOriginKind(content: string): OriginKind | "unknown" {
+  return parseProvenance(content)?.kind ?? "unknown";
 }
 
 function splitDescriptionAndModel(description?: string): {
@@ -41,73 +52,73 @@ function splitDescriptionAndModel(description?: string): {
   };
 }
 
+// Agents synced by older versions only kept the model, inside the description
+function legacyAgentFrontmatter(
+  name: string,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const rawDescription =
+    typeof data.description === "string" ? data.description : undefined;
+  const { description, model } = splitDescriptionAndModel(rawDescription);
+
+  const frontmatter: Record<string, unknown> = {
+    name,
+  };
+  if (description) frontmatter.description = description;
+  if (model) frontmatter.model = model;
+  return frontmatter;
+}
+
+// Body of the Claude file an item was rendered from, if there is one
+async function claudeBody(path: string): Promise<string | null> {
+  if (!existsSync(path)) return null;
+  return matter(await readFile(path, "utf-8")).content;
+}
+
 async function writeClaudeSkill(
   name: string,
   data: Record<string, unknown>,
   content: string,
   skillDir: string,
   outputSkillsDir: string,
-  dryRun: boolean
+  dryRun: boolean,
+  adaptContent: (text: string, claudeFile: string) => Promise<string>
 ): Promise<SyncedClaudeItem> {
   const outDir = join(outputSkillsDir, name);
   const outFile = join(outDir, "SKILL.md");
-  const files = [outFile];
 
-  const frontmatter: Record<string, unknown> = { ...data };
+  const frontmatter = toClaudeFrontmatter(data);
   if (!frontmatter.name) frontmatter.name = name;
 
-  const cleanedContent = stripAutoHeader(content.trimStart()).trimStart();
-  const output = matter.stringify(cleanedContent, frontmatter);
-
-  const entries = await readdir(skillDir, { withFileTypes: true });
-  const mdFiles = entries.filter(
-    (entry) =>
-      entry.isFile() && entry.name.endsWith(".md") && entry.name !== "SKILL.md"
-  );
+  const output = matter.stringify(content.trimStart(), frontmatter);
+  const files: WrittenFile[] = [
+    { path: outFile, action: await writeOutput(outFile, output, { dryRun }) },
+  ];
 
-  const scriptsDir = join(skillDir, "scripts");
-  const scriptEntries = existsSync(scriptsDir)
-    ? await readdir(scriptsDir, { withFileTypes: true })
-    : [];
-  const tsFiles = scriptEntries.filter(
-    (entry) => entry.isFile() && entry.name.endsWith(".ts")
+  files.push(
+    ...(await copyTree(skillDir, outDir, {
+      mapPath: (path) => (path === "SKILL.md" ? null : path),
+      transformMarkdown: async (raw, path) => {
+        const parsed = matter(raw);
+        const content = await adaptContent(parsed.content, join(outDir, path));
+        return matter.stringify(
+          content.trimStart(),
+          toClaudeFrontmatter(parsed.data)
+        );
+      },
+      dryRun,
+    }))
   );
+  const removed = await removeStaleFiles(outDir, files, dryRun);
 
-  if (!dryRun) {
-    await mkdir(outDir, { recursive: true });
-    await Bun.write(outFile, output);
-
-    if (tsFiles.length > 0) {
-      for (const entry of tsFiles) {
-        const src = join(scriptsDir, entry.name);
-        const dest = join(outDir, entry.name);
-        await copyFile(src, dest);
-        files.push(dest);
-      }
-    }
-
-    for (const entry of mdFiles) {
-      const src = join(skillDir, entry.name);
-      const mdRaw = await readFile(src, "utf-8");
-      const mdParsed = matter(mdRaw);
-      const mdOut = matter.stringify(
-        mdParsed.content.trimStart(),
-        mdParsed.data as Record<string, unknown>
-      );
-      const dest = join(outDir, entry.name);
-      await Bun.write(dest, mdOut);
-      files.push(dest);
-    }
-  } else {
-    for (const entry of tsFiles) {
-      files.push(join(outDir, entry.name));
-    }
-    for (const entry of mdFiles) {
-      files.push(join(outDir, entry.name));
-    }
-  }
-
-  return { name, outputPath: outDir, files, kind: "skill" };
+  return {
+    name,
+    outputPath: outDir,
+    action: itemAction(files, removed),
+    files,
+    removed,
+    kind: "skill",
+  };
 }
 
 async function writeClaudeAgent(
@@ -118,64 +129,165 @@ async function writeClaudeAgent(
   dryRun: boolean
 ): Promise<SyncedClaudeItem> {
   const outFile = join(outputAgentsDir, `${name}.md`);
-  const files = [outFile];
 
-  const rawDescription =
-    typeof data.description === "string" ? data.description : undefined;
-  const { description, model } = splitDescriptionAndModel(rawDescription);
+  const frontmatter = hasClaudeMetadata(data)
+    ? { name, ...toClaudeFrontmatter(data) }
+    : legacyAgentFrontmatter(name, data);
 
-  const frontmatter: Record<string, unknown> = {
+  const output = matter.stringify(content.trimStart(), frontmatter);
+  const action = await writeOutput(outFile, output, { dryRun });
+
+  return {
     name,
+    outputPath: outFile,
+    action,
+    files: [{ path: outFile, action }],
+    kind: "agent",
   };
-  if (description) frontmatter.description = description;
-  if (model) frontmatter.model = model;
-
-  const cleanedContent = stripAutoHeader(content.trimStart()).trimStart();
-  const output = matter.stringify(cleanedContent, frontmatter);
-
-  if (!dryRun) {
-    await mkdir(outputAgentsDir, { recursive: true });
-    await Bun.write(outFile, output);
-  }
+}
 
-  return { name, outputPath: outFile, files, kind: "agent" };
+export interface ToClaudeOptions {
+  // Replace an existing Claude item instead of skipping it
+  overwrite?: boolean;
+  // Known kind of the Claude item, when the header can't tell
+  kind?: ItemKind;
+  rules?: RewriteRule[];
+  // Target id used to pick rewrite rules
+  target?: string;
 }
 
 export async function transformCodexSkillToClaude(
   skillDir: string,
   outputSkillsDir: string,
   outputAgentsDir: string,
-  dryRun: boolean
+  dryRun: boolean,
+  options: ToClaudeOptions = {}
 ): Promise<SyncedClaudeItem | null> {
   const skillMdPath = join(skillDir, "SKILL.md");
   if (!existsSync(skillMdPath)) return null;
 
+  const { rules = DEFAULT_RULES, target = "agents" } = options;
+  const adaptContent = async (text: string, claudeFile: string) =>
+    restoreRules(text, await claudeBody(claudeFile), rules, target);
+
   const name = basename(skillDir);
   const raw = await readFile(skillMdPath, "utf-8");
-  const { data, content } = matter(raw);
+  const { data, content: rawContent } = matter(raw);
 
-  const kind = detectOriginKind(content);
+  const kind = options.kind ?? detectOriginKind(rawContent);
+  const body = stripProvenanceHeader(rawContent.trimStart());
 
   if (kind === "agent") {
     const outFile = join(outputAgentsDir, `${name}.md`);
-    if (existsSync(outFile)) return null;
+    if (existsSync(outFile) && !options.overwrite) return null;
     return writeClaudeAgent(
       name,
       data as Record<string, unknown>,
-      content,
+      await adaptContent(body, outFile),
       outputAgentsDir,
       dryRun
     );
   }
 
   const outFile = join(outputSkillsDir, name, "SKILL.md");
-  if (existsSync(outFile)) return null;
+  if (existsSync(outFile) && !options.overwrite) return null;
   return writeClaudeSkill(
     name,
     data as Record<string, unknown>,
-    content,
+    await adaptContent(body, outFile),
     skillDir,
     outputSkillsDir,
-    dryRun
+    dryRun,
+    adaptContent
   );
 }
+
+async function migrateCodexToAgents(
+  codexSkillsDir: string,
+  agentsSkillsDir: string,
+  excludeNames: Set<string>,
+  dryRun: boolean,
+  cleanup: boolean,
+  isSelected: (name: string) => boolean
+): Promise<MigrationResult> {
+  const codexSkillDirs = await discoverSkillDirs(codexSkillsDir);
+  const migrated: SyncedSkill[] = [];
+  const deleted: string[] = [];
+
+  for (const dir of codexSkillDirs) {
+    const name = basename(dir);
+    if (!isSelected(name)) continue;
+    if (excludeNames.has(name)) {
+      // Already synced from Claude, just cleanup if enabled
+      if (cleanup) recordDelete(dir);
+      if (cleanup && !dryRun) {
+        await backupPath(dir);
+        await Bun.$`rm -rf ${dir}`;
+        deleted.push(name);
+      } else if (cleanup) {
+        deleted.push(name);
+      }
+      continue;
+    }
+
+    // Migrate to .agents (copy the skill directory)
+    const outDir = join(agentsSkillsDir, name);
+    const files = await copyTree(dir, outDir, { dryRun });
+
+    migrated.push({
+      name,
+      outputPath: outDir,
+      action: itemAction(files),
+      files,
+    });
+
+    // Cleanup from codex
+    if (cleanup) recordDelete(dir);
+    if (cleanup && !dryRun) {
+      await backupPath(dir);
+      await Bun.$`rm -rf ${dir}`;
+      deleted.push(name);
+    } else if (cleanup) {
+      deleted.push(name);
+    }
+  }
+
+  return { migrated, deleted };
+}
+
+// Legacy ~/.codex/skills: items move into .agents and are cleaned up
+export const codexAdapter: SyncAdapter = {
+  id: "codex",
+  label: "Codex (legacy)",
+  capabilities: {
+    scopes: ["global"],
+    skills: false,
+    agents: false,
+    toClaude: false,
+  },
+
+  globalDocPath(ctx) {
+    return join(dirname(ctx.codexSkillsDir), "AGENTS.md");
+  },
+
+  mcpConfigPath(ctx) {
+    return join(dirname(ctx.codexSkillsDir), "config.toml");
+  },
+
+  async discover(ctx) {
+    const dirs = await discoverSkillDirs(ctx.codexSkillsDir);
+    return dirs.map((dir) => ({ name: basename(dir), path: dir }));
+  },
+
+  async migrate(ctx, claimed, isSelected) {
+    if (!existsSync(ctx.codexSkillsDir)) return { migrated: [], deleted: [] };
+    return migrateCodexToAgents(
+      ctx.codexSkillsDir,
+      ctx.agentsSkillsDir,
+      claimed,
+      ctx.dryRun,
+      ctx.cleanupCodex,
+      isSelected
+    );
+  },
+};
@@ -0,0 +1,19 @@
+import { join } from "path";
+import { createRuleFileAdapter } from "./rule-file.ts";
+
+// GitHub Copilot custom instructions, picked up by their description
+export const copilotAdapter = createRuleFileAdapter({
+  id: "copilot",
+  label: "GitHub Copilot",
+  capabilities: {
+    scopes: ["project"],
+    skills: true,
+    agents: true,
+    toClaude: true,
+    docs: "to-target",
+  },
+  rulesDir: (root) => join(root, ".github", "instructions"),
+  extension: ".instructions.md",
+  ruleFrontmatter: (description) => (description ? { description } : {}),
+  docPath: (root) => join(root, ".github", "copilot-instructions.md"),
+});
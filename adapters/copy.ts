@@ -0,0 +1,205 @@
+import { existsSync } from "fs";
+import {
+  chmod,
+  lstat,
+  mkdir,
+  readdir,
+  readFile,
+  readlink,
+  rm,
+  symlink,
+} from "fs/promises";
+import { dirname, join } from "path";
+import { backupPath } from "../backup.ts";
+import { recordDelete, recordWrite } from "../preview.ts";
+
+// What a sync did to an output file, or to an item as a whole
+export type WriteAction = "created" | "updated" | "unchanged";
+
+export interface WrittenFile {
+  path: string;
+  action: WriteAction;
+}
+
+export interface CopyTreeOptions {
+  // Destination path relative to the output directory, or null to skip
+  mapPath?: (relativePath: string) => string | null;
+  // Rewrites the content of markdown files on the way, given their path
+  // relative to the source directory
+  transformMarkdown?: (
+    content: string,
+    relativePath: string
+  ) => string | Promise<string>;
+  dryRun?: boolean;
+}
+
+export async function listTree(
+  root: string,
+  dir = ""
+): Promise<{ path: string; kind: "file" | "symlink" }[]> {
+  const entries = await readdir(join(root, dir), { withFileTypes: true });
+  const found: { path: string; kind: "file" | "symlink" }[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isSymbolicLink()) {
+      found.push({ path, kind: "symlink" });
+    } else if (entry.isDirectory()) {
+      found.push(...(await listTree(root, path)));
+    } else if (entry.isFile()) {
+      found.push({ path, kind: "file" });
+    }
+  }
+  return found;
+}
+
+async function lstatOrNull(path: string) {
+  try {
+    return await lstat(path);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a generated file unless it already holds the same content and
+ * mode. Only files that change are backed up and touched.
+ */
+export async function writeOutput(
+  path: string,
+  content: string | Uint8Array,
+  options: { dryRun?: boolean; mode?: number } = {}
+): Promise<WriteAction> {
+  const { dryRun = false, mode } = options;
+  recordWrite(path, content);
+
+  const existing = await lstatOrNull(path);
+  if (
+    existing?.isFile() &&
+    (mode === undefined || (existing.mode & 0o7777) === mode) &&
+    Buffer.compare(
+      await readFile(path),
+      typeof content === "string" ? Buffer.from(content) : content
+    ) === 0
+  ) {
+    return "unchanged";
+  }
+  const action = existing ? "updated" : "created";
+  if (dryRun) return action;
+
+  await backupPath(path);
+  await mkdir(dirname(path), { recursive: true });
+  // Replace whatever is there, including a link we'd otherwise write through
+  await rm(path, { force: true });
+  await Bun.write(path, content);
+  if (mode !== undefined) await chmod(path, mode);
+  return action;
+}
+
+/**
+ * Point a link at `target` unless it already does.
+ */
+export async function writeLink(
+  path: string,
+  target: string,
+  dryRun = false
+): Promise<WriteAction> {
+  const existing = await lstatOrNull(path);
+  if (existing?.isSymbolicLink() && (await readlink(path)) === target) {
+    return "unchanged";
+  }
+  const action = existing ? "updated" : "created";
+  if (dryRun) return action;
+
+  await backupPath(path);
+  await rm(path, { recursive: true, force: true });
+  await mkdir(dirname(path), { recursive: true });
+  await symlink(target, path);
+  return action;
+}
+
+/**
+ * An item is created when all of its files are new, unchanged when none
+ * of them changed and nothing was removed, and updated otherwise.
+ */
+export function itemAction(
+  files: WrittenFile[],
+  removed: string[] = []
+): WriteAction {
+  if (removed.length === 0 && files.every((f) => f.action === "unchanged")) {
+    return "unchanged";
+  }
+  return removed.length === 0 && files.every((f) => f.action === "created")
+    ? "created"
+    : "updated";
+}
+
+/**
+ * Recursively copy a skill directory, keeping file modes. Symlinks are
+ * recreated as links with the same target rather than followed, so links
+ * inside the skill keep working and links outside it aren't inlined.
+ * Files that already match are left alone. Returns the destination files.
+ */
+export async function copyTree(
+  srcDir: string,
+  destDir: string,
+  options: CopyTreeOptions = {}
+): Promise<WrittenFile[]> {
+  const {
+    mapPath = (path) => path,
+    transformMarkdown,
+    dryRun = false,
+  } = options;
+  const files: WrittenFile[] = [];
+
+  for (const entry of await listTree(srcDir)) {
+    const target = mapPath(entry.path);
+    if (target === null) continue;
+
+    const src = join(srcDir, entry.path);
+    const dest = join(destDir, target);
+
+    // Links have no content of their own to preview
+    if (entry.kind === "symlink") {
+      const action = await writeLink(dest, await readlink(src), dryRun);
+      files.push({ path: dest, action });
+      continue;
+    }
+
+    const content =
+      transformMarkdown && entry.path.endsWith(".md")
+        ? await transformMarkdown(await readFile(src, "utf-8"), entry.path)
+        : await readFile(src);
+    const action = await writeOutput(dest, content, {
+      dryRun,
+      mode: (await lstat(src)).mode & 0o7777,
+    });
+    files.push({ path: dest, action });
+  }
+
+  return files;
+}
+
+/**
+ * Remove the files of a generated directory that the latest transform
+ * didn't write, so files deleted from the source don't linger. Returns
+ * the removed files.
+ */
+export async function removeStaleFiles(
+  dir: string,
+  written: WrittenFile[],
+  dryRun = false
+): Promise<string[]> {
+  if (!existsSync(dir) || (await lstat(dir)).isSymbolicLink()) return [];
+  const keep = new Set(written.map((file) => file.path));
+  const removed: string[] = [];
+  for (const entry of await listTree(dir)) {
+    const path = join(dir, entry.path);
+    if (keep.has(path)) continue;
+    removed.push(path);
+    recordDelete(path);
+    if (dryRun) continue;
+    await backupPath(path);
+    await rm(path, { force: true });
+  }
+  return removed;
+}
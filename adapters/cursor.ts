@@ -0,0 +1,20 @@
+import { join } from "path";
+import { createRuleFileAdapter } from "./rule-file.ts";
+
+// Agent-requested rules: Cursor attaches them based on the description
+export const cursorAdapter = createRuleFileAdapter({
+  id: "cursor",
+  label: "Cursor",
+  capabilities: {
+    scopes: ["project"],
+    skills: true,
+    agents: true,
+    toClaude: true,
+  },
+  rulesDir: (root) => join(root, ".cursor", "rules"),
+  extension: ".mdc",
+  ruleFrontmatter: (description) => ({
+    description: description ?? "",
+    alwaysApply: false,
+  }),
+});
@@ -0,0 +1,75 @@
+import { existsSync } from "fs";
+import { readdir } from "fs/promises";
+import { basename, join, sep } from "path";
+import type { ClaudeItem } from "./types.ts";
+
+export async function discoverSkillDirs(skillsDir: string): Promise<string[]> {
+  if (!existsSync(skillsDir)) return [];
+
+  const entries = await readdir(skillsDir, { withFileTypes: true });
+  const dirs = entries
+    .filter((e) => e.isDirectory())
+    .map((e) => join(skillsDir, e.name));
+
+  const valid: string[] = [];
+  for (const dir of dirs) {
+    if (existsSync(join(dir, "SKILL.md"))) valid.push(dir);
+  }
+
+  return valid;
+}
+
+export async function discoverAgents(claudeDir: string): Promise<string[]> {
+  const agentsDir = join(claudeDir, "agents");
+  if (!existsSync(agentsDir)) return [];
+
+  const entries = await readdir(agentsDir, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isFile() && e.name.endsWith(".md"))
+    .map((e) => join(agentsDir, e.name));
+}
+
+// Commands in subfolders are namespaced by their relative path
+export async function discoverCommands(
+  claudeDir: string
+): Promise<{ name: string; path: string }[]> {
+  const commandsDir = join(claudeDir, "commands");
+  if (!existsSync(commandsDir)) return [];
+
+  const glob = new Bun.Glob("**/*.md");
+  const commands: { name: string; path: string }[] = [];
+  for await (const file of glob.scan({ cwd: commandsDir })) {
+    commands.push({
+      name: file.slice(0, -".md".length).split(sep).join("/"),
+      path: join(commandsDir, file),
+    });
+  }
+  return commands.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Skills win over agents with the same name; commands have their own names
+export async function discoverClaudeItems(
+  claudeDir: string
+): Promise<ClaudeItem[]> {
+  const skillDirs = await discoverSkillDirs(join(claudeDir, "skills"));
+  const agentPaths = await discoverAgents(claudeDir);
+
+  const items: ClaudeItem[] = skillDirs.map((dir) => ({
+    name: basename(dir),
+    kind: "skill",
+    path: dir,
+  }));
+  const skillNames = new Set(items.map((item) => item.name));
+
+  for (const path of agentPaths) {
+    const name = basename(path, ".md");
+    if (skillNames.has(name)) continue;
+    items.push({ name, kind: "agent", path });
+  }
+
+  for (const command of await discoverCommands(claudeDir)) {
+    items.push({ ...command, kind: "command" });
+  }
+
+  return items;
+}
@@ -0,0 +1,63 @@
+// Claude-only frontmatter fields travel through .agents under this key
+// so they can be restored when the item comes back
+const CLAUDE_METADATA_KEY = "claude";
+
+type Frontmatter = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Frontmatter {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Fields every target understands, kept at the top level
+const SHARED_FIELDS = ["name", "description"];
+
+export function toAgentsFrontmatter(
+  data: Frontmatter,
+  shared: string[] = SHARED_FIELDS
+): Frontmatter {
+  const agents: Frontmatter = {};
+  for (const key of shared) {
+    if (data[key]) agents[key] = data[key];
+  }
+
+  const claude: Frontmatter = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (shared.includes(key)) continue;
+    claude[key] = value;
+  }
+
+  if (Object.keys(claude).length > 0) {
+    agents.metadata = { [CLAUDE_METADATA_KEY]: claude };
+  }
+
+  return agents;
+}
+
+export function toClaudeFrontmatter(data: Frontmatter): Frontmatter {
+  const { metadata, ...rest } = data;
+  if (!hasClaudeMetadata(data)) return { ...data };
+
+  const { [CLAUDE_METADATA_KEY]: claude, ...otherMetadata } =
+    metadata as Frontmatter;
+  const frontmatter: Frontmatter = {};
+  if (rest.name !== undefined) frontmatter.name = rest.name;
+  if (rest.description !== undefined)
+    frontmatter.description = rest.description;
+  Object.assign(frontmatter, claude);
+
+  // Keep anything added on the .agents side that Claude didn't have
+  for (const [key, value] of Object.entries(rest)) {
+    if (!(key in frontmatter)) frontmatter[key] = value;
+  }
+  if (Object.keys(otherMetadata).length > 0 && !("metadata" in frontmatter)) {
+    frontmatter.metadata = otherMetadata;
+  }
+
+  return frontmatter;
+}
+
+export function hasClaudeMetadata(data: Frontmatter): boolean {
+  return (
+    isRecord(data.metadata) && isRecord(data.metadata[CLAUDE_METADATA_KEY])
+  );
+}
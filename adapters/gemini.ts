@@ -0,0 +1,17 @@
+import { join } from "path";
+import { createSkillDirAdapter } from "./skill-dir.ts";
+
+// Gemini CLI reads skills from .gemini/skills and memory from GEMINI.md
+export const geminiAdapter = createSkillDirAdapter({
+  id: "gemini",
+  label: "Gemini CLI",
+  capabilities: {
+    scopes: ["global", "project"],
+    skills: true,
+    agents: true,
+    toClaude: true,
+    docs: "to-target",
+  },
+  skillsDir: (ctx) => join(ctx.root, ".gemini", "skills"),
+  docPath: (root) => join(root, "GEMINI.md"),
+});
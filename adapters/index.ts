@@ -0,0 +1,35 @@
+import { agentsAdapter } from "./agents.ts";
+import { codexAdapter } from "./codex.ts";
+import { copilotAdapter } from "./copilot.ts";
+import { cursorAdapter } from "./cursor.ts";
+import { geminiAdapter } from "./gemini.ts";
+import { codexPromptsAdapter } from "./prompts.ts";
+import type { SyncAdapter } from "./types.ts";
+import { windsurfAdapter } from "./windsurf.ts";
+
+// Registration order is sync order: .agents first so legacy Codex items
+// can migrate into it
+export const ADAPTERS: SyncAdapter[] = [
+  agentsAdapter,
+  codexAdapter,
+  codexPromptsAdapter,
+  geminiAdapter,
+  cursorAdapter,
+  copilotAdapter,
+  windsurfAdapter,
+];
+
+export const DEFAULT_TARGETS = ["agents", "codex", "codex-prompts"];
+
+export function resolveAdapters(
+  ids: string[] = DEFAULT_TARGETS
+): SyncAdapter[] {
+  const known = new Set(ADAPTERS.map((adapter) => adapter.id));
+  const unknown = ids.filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown target(s): ${unknown.join(", ")}. Available: ${[...known].join(", ")}`
+    );
+  }
+  return ADAPTERS.filter((adapter) => ids.includes(adapter.id));
+}
@@ -0,0 +1,152 @@
+import matter from "gray-matter";
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { dirname, join } from "path";
+import { hashPath } from "../manifest.ts";
+import { writeOutput } from "./copy.ts";
+import { toAgentsFrontmatter, toClaudeFrontmatter } from "./frontmatter.ts";
+import { stripProvenanceHeader, withProvenanceHeader } from "./provenance.ts";
+import { applyRules, DEFAULT_RULES, restoreRules } from "./rules.ts";
+import type { AdapterContext, SyncAdapter } from "./types.ts";
+
+// Frontmatter both tools read from a command file
+const PROMPT_FIELDS = ["description", "argument-hint"];
+
+// Codex expands $1-$9, $ARGUMENTS and named $UPPER_CASE placeholders, and
+// reads $$ as a literal dollar sign
+const PLACEHOLDER_RE = /\$(\$|[A-Z][A-Z0-9_]*)/g;
+const NAMED_ARG_RE = /\b([A-Z][A-Z0-9_]*)=/g;
+
+function promptsDir(ctx: AdapterContext): string {
+  return join(dirname(ctx.codexSkillsDir), "prompts");
+}
+
+// Codex has no subfolders, so namespaced commands are flattened
+function promptPath(name: string, ctx: AdapterContext): string {
+  return join(promptsDir(ctx), `${name.split("/").join("-")}.md`);
+}
+
+/**
+ * Claude only substitutes $ARGUMENTS and $1-$9; any other `$NAME` in a
+ * command is literal text that Codex would treat as a named argument, so it
+ * is escaped. Names declared in argument-hint as `NAME=` stay placeholders.
+ */
+export function toCodexPlaceholders(
+  content: string,
+  argumentHint?: string
+): string {
+  const named = new Set(
+    [...(argumentHint ?? "").matchAll(NAMED_ARG_RE)].map((match) => match[1])
+  );
+  return content.replace(PLACEHOLDER_RE, (placeholder, name: string) => {
+    if (name === "$") return "$$$$";
+    return name === "ARGUMENTS" || named.has(name)
+      ? placeholder
+      : `$${placeholder}`;
+  });
+}
+
+export function toClaudePlaceholders(content: string): string {
+  return content.replace(/\$\$/g, () => "$");
+}
+
+// Codex custom prompts in ~/.codex/prompts, the counterpart of Claude commands
+export const codexPromptsAdapter: SyncAdapter = {
+  id: "codex-prompts",
+  label: "Codex prompts",
+  capabilities: {
+    scopes: ["global"],
+    skills: false,
+    agents: false,
+    commands: true,
+    toClaude: true,
+  },
+
+  async discover(ctx) {
+    const dir = promptsDir(ctx);
+    if (!existsSync(dir)) return [];
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((e) => e.isFile() && e.name.endsWith(".md"))
+      .map((e) => ({
+        name: e.name.slice(0, -".md".length),
+        path: join(dir, e.name),
+      }));
+  },
+
+  outputPath(name, ctx) {
+    return promptPath(name, ctx);
+  },
+
+  async transformOut(item, ctx) {
+    const raw = await readFile(item.path, "utf-8");
+    const { data, content } = matter(raw);
+
+    const argumentHint =
+      typeof data["argument-hint"] === "string"
+        ? data["argument-hint"]
+        : undefined;
+    const adaptedContent = withProvenanceHeader(
+      toCodexPlaceholders(
+        applyRules(
+          content,
+          ctx.rules ?? DEFAULT_RULES,
+          "codex-prompts",
+          "to-agents"
+        ),
+        argumentHint
+      ),
+      "command",
+      item.path,
+      await hashPath(item.path)
+    );
+    const output = matter.stringify(
+      adaptedContent,
+      toAgentsFrontmatter(data, PROMPT_FIELDS)
+    );
+
+    const outFile = promptPath(item.name, ctx);
+    const action = await writeOutput(outFile, output, {
+      dryRun: ctx.dryRun,
+    });
+
+    return {
+      name: item.name,
+      outputPath: outFile,
+      action,
+      files: [{ path: outFile, action }],
+    };
+  },
+
+  async transformIn(item, ctx, options = {}) {
+    const outFile = join(ctx.claudeDir, "commands", `${item.name}.md`);
+    if (existsSync(outFile) && !options.overwrite) return null;
+
+    const raw = await readFile(item.path, "utf-8");
+    const { data, content: rawContent } = matter(raw);
+    const content = restoreRules(
+      toClaudePlaceholders(stripProvenanceHeader(rawContent.trimStart())),
+      existsSync(outFile)
+        ? matter(await readFile(outFile, "utf-8")).content
+        : null,
+      options.rules ?? ctx.rules ?? DEFAULT_RULES,
+      "codex-prompts"
+    );
+    const output = matter.stringify(
+      content.trimStart(),
+      toClaudeFrontmatter(data)
+    );
+
+    const action = await writeOutput(outFile, output, {
+      dryRun: ctx.dryRun,
+    });
+
+    return {
+      name: item.name,
+      outputPath: outFile,
+      action,
+      files: [{ path: outFile, action }],
+      kind: "command",
+    };
+  },
+};
@@ -0,0 +1,67 @@
+import { homedir } from "os";
+import { relative, sep } from "path";
+import pkg from "../package.json";
+
+export type OriginKind = "agent" | "skill" | "command";
+
+export interface Provenance {
+  kind: OriginKind;
+  sourcePath?: string;
+  version?: string;
+  hash?: string;
+}
+
+const AUTO_HEADER_RE = /^>\s*Auto-generated from .* by sync-agents\b.*\n\n?/i;
+const PROVENANCE_RE =
+  /^>\s*Auto-generated from Claude Code (agent|skill|command)\b(?: `([^`]+)`)? by sync-agents(?: v(\S+))?(?: \((sha256:[0-9a-f]+)\))?\s*$/i;
+
+// Project-scoped sources are shown relative to the project root so generated
+// files can be committed without leaking local paths
+export function displayPath(path: string, projectRoot?: string): string {
+  if (projectRoot) {
+    const rel = relative(projectRoot, path);
+    if (!rel.startsWith("..")) return rel.split(sep).join("/");
+  }
+  const home = homedir();
+  const rel = relative(home, path);
+  if (rel.startsWith("..") || rel === path) return path;
+  return ["~", ...rel.split(sep)].join("/");
+}
+
+export function formatProvenanceHeader(
+  kind: OriginKind,
+  sourcePath: string,
+  hash: string | null,
+  projectRoot?: string
+): string {
+  const shortHash = hash ? ` (${hash.slice(0, "sha256:".length + 12)})` : "";
+  return `> Auto-generated from Claude Code ${kind} \`${displayPath(sourcePath, projectRoot)}\` by sync-agents v${pkg.version}${shortHash}`;
+}
+
+export function withProvenanceHeader(
+  content: string,
+  kind: OriginKind,
+  sourcePath: string,
+  hash: string | null,
+  projectRoot?: string
+): string {
+  const header = formatProvenanceHeader(kind, sourcePath, hash, projectRoot);
+  return `${header}\n\n${stripProvenanceHeader(content.trimStart())}`;
+}
+
+export function parseProvenance(content: string): Provenance | null {
+  const trimmed = content.trimStart();
+  const firstLine = trimmed.split("\n", 1)[0] ?? "";
+  const match = firstLine.match(PROVENANCE_RE);
+  if (!match) return null;
+  return {
+    kind: match[1]!.toLowerCase() as OriginKind,
+    sourcePath: match[2],
+    version: match[3],
+    hash: match[4],
+  };
+}
+
+export function stripProvenanceHeader(content: string): string {
+  return content.replace(AUTO_HEADER_RE, "");
+}
@@ -0,0 +1,144 @@
+import matter from "gray-matter";
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { dirname, join } from "path";
+import { hashPath } from "../manifest.ts";
+import { writeOutput } from "./copy.ts";
+import { toAgentsFrontmatter, toClaudeFrontmatter } from "./frontmatter.ts";
+import {
+  parseProvenance,
+  stripProvenanceHeader,
+  withProvenanceHeader,
+} from "./provenance.ts";
+import { applyRules, DEFAULT_RULES, restoreRules } from "./rules.ts";
+import type { AdapterCapabilities, ItemKind, SyncAdapter } from "./types.ts";
+
+interface RuleFileTarget {
+  id: string;
+  label: string;
+  capabilities: AdapterCapabilities;
+  rulesDir(root: string): string;
+  extension: string;
+  // Tool-specific frontmatter for a rule generated from a Claude item
+  ruleFrontmatter(
+    description: string | undefined,
+    kind: ItemKind
+  ): Record<string, unknown>;
+  docPath?(root: string): string;
+}
+
+/**
+ * Targets that keep one markdown rule file per item (Cursor, Copilot,
+ * Windsurf). Only the main document is carried over; sibling files of a
+ * skill stay in Claude.
+ */
+export function createRuleFileAdapter(target: RuleFileTarget): SyncAdapter {
+  const { id, extension, rulesDir } = target;
+
+  const outputPath = (name: string, root: string) =>
+    join(rulesDir(root), `${name}${extension}`);
+
+  return {
+    id,
+    label: target.label,
+    capabilities: target.capabilities,
+    docPath: target.docPath,
+
+    async discover(ctx) {
+      const dir = rulesDir(ctx.root);
+      if (!existsSync(dir)) return [];
+      const entries = await readdir(dir, { withFileTypes: true });
+      return entries
+        .filter((e) => e.isFile() && e.name.endsWith(extension))
+        .map((e) => ({
+          name: e.name.slice(0, -extension.length),
+          path: join(dir, e.name),
+        }));
+    },
+
+    outputPath(name, ctx) {
+      return outputPath(name, ctx.root);
+    },
+
+    async transformOut(item, ctx) {
+      const sourceFile =
+        item.kind === "skill" ? join(item.path, "SKILL.md") : item.path;
+      const raw = await readFile(sourceFile, "utf-8");
+      const { data, content } = matter(raw);
+
+      const { metadata } = toAgentsFrontmatter(data);
+      const description =
+        typeof data.description === "string" ? data.description : undefined;
+      const frontmatter = {
+        ...target.ruleFrontmatter(description, item.kind),
+        ...(metadata ? { metadata } : {}),
+      };
+
+      const adaptedContent = withProvenanceHeader(
+        applyRules(content, ctx.rules ?? DEFAULT_RULES, id, "to-agents"),
+        item.kind,
+        item.path,
+        await hashPath(item.path),
+        ctx.scope === "project" ? ctx.root : undefined
+      );
+      const output = matter.stringify(adaptedContent, frontmatter);
+
+      const outFile = outputPath(item.name, ctx.root);
+      const action = await writeOutput(outFile, output, {
+        dryRun: ctx.dryRun,
+      });
+
+      return {
+        name: item.name,
+        outputPath: outFile,
+        action,
+        files: [{ path: outFile, action }],
+      };
+    },
+
+    async transformIn(item, ctx, options = {}) {
+      const raw = await readFile(item.path, "utf-8");
+      const { data, content: rawContent } = matter(raw);
+      const kind = options.kind ?? parseProvenance(rawContent)?.kind ?? "skill";
+
+      const outFile =
+        kind === "agent"
+          ? join(ctx.claudeDir, "agents", `${item.name}.md`)
+          : join(ctx.claudeDir, "skills", item.name, "SKILL.md");
+      if (existsSync(outFile) && !options.overwrite) return null;
+
+      const frontmatter: Record<string, unknown> = { name: item.name };
+      if (typeof data.description === "string") {
+        frontmatter.description = data.description;
+      }
+      if (data.metadata) {
+        Object.assign(
+          frontmatter,
+          toClaudeFrontmatter({ ...frontmatter, metadata: data.metadata })
+        );
+      }
+
+      const content = restoreRules(
+        stripProvenanceHeader(rawContent.trimStart()),
+        existsSync(outFile)
+          ? matter(await readFile(outFile, "utf-8")).content
+          : null,
+        options.rules ?? ctx.rules ?? DEFAULT_RULES,
+        id
+      );
+      const output = matter.stringify(content.trimStart(), frontmatter);
+
+      const action = await writeOutput(outFile, output, {
+        dryRun: ctx.dryRun,
+      });
+
+      return {
+        name: item.name,
+        outputPath: kind === "agent" ? outFile : dirname(outFile),
+        action,
+        files: [{ path: outFile, action }],
+        kind,
+      };
+    },
+  };
+}
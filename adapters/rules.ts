@@ -0,0 +1,164 @@
+import { diffLines } from "../diff.ts";
+
+export type RuleDirection = "to-agents" | "to-claude" | "both";
+
+export interface RewriteRule {
+  type?: "literal" | "regex";
+  from: string;
+  to: string;
+  // Regex flags, "g" is always added
+  flags?: string;
+  // Regex rules can only run backwards with an explicit inverse
+  inverse?: { from: string; to: string };
+  // Target ids the rule applies to (default: all)
+  targets?: string[];
+  // Literal rules default to "both", regex rules to "to-agents"
+  direction?: RuleDirection;
+}
+
+interface CompiledRule {
+  pattern: RegExp;
+  replacement: string;
+}
+
+// One-way: plain text like "Read the file" can't be told apart from a
+// rewritten tool name, so it is never turned back into one
+export const DEFAULT_RULES: RewriteRule[] = [
+  { from: "Use the Read tool", to: "Read the file" },
+  { from: "Use the Write tool", to: "Write to the file" },
+  { from: "Use the Glob tool", to: "Search for files" },
+  { from: "Use the Grep tool", to: "Search file contents" },
+  { from: "Use the Edit tool", to: "Edit the file" },
+  { from: "Use the Bash tool", to: "Run the command" },
+  { from: "`Glob`", to: "file search" },
+  { from: "`Grep`", to: "content search" },
+  { from: "`Read`", to: "file read" },
+].map((rule) => ({ ...rule, direction: "to-agents" as const }));
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Word boundaries only where the literal starts or ends with a word character
+function literalPattern(text: string): RegExp {
+  const start = /^\w/.test(text) ? "\\b" : "";
+  const end = /\w$/.test(text) ? "\\b" : "";
+  return new RegExp(`${start}${escapeRegExp(text)}${end}`, "g");
+}
+
+function regexPattern(source: string, flags = ""): RegExp {
+  return new RegExp(source, flags.includes("g") ? flags : `${flags}g`);
+}
+
+function compileRule(
+  rule: RewriteRule,
+  direction: "to-agents" | "to-claude"
+): CompiledRule | null {
+  const type = rule.type ?? "literal";
+  const ruleDirection =
+    rule.direction ?? (type === "literal" ? "both" : "to-agents");
+  if (ruleDirection !== "both" && ruleDirection !== direction) return null;
+
+  const inverse = direction === "to-claude" && ruleDirection === "both";
+
+  if (type === "literal") {
+    const [from, to] = inverse ? [rule.to, rule.from] : [rule.from, rule.to];
+    // Escape "$" so the replacement is inserted verbatim
+    return {
+      pattern: literalPattern(from),
+      replacement: to.replace(/\$/g, "$$$$"),
+    };
+  }
+
+  if (inverse) {
+    if (!rule.inverse) return null;
+    return {
+      pattern: regexPattern(rule.inverse.from, rule.flags),
+      replacement: rule.inverse.to,
+    };
+  }
+
+  return { pattern: regexPattern(rule.from, rule.flags), replacement: rule.to };
+}
+
+/**
+ * Throws on malformed rules so config errors surface before anything is
+ * written.
+ */
+export function validateRules(rules: RewriteRule[]): void {
+  for (const [index, rule] of rules.entries()) {
+    const label = `Rewrite rule #${index + 1}`;
+    if (typeof rule.from !== "string" || typeof rule.to !== "string") {
+      throw new Error(`${label}: "from" and "to" must be strings`);
+    }
+    if (rule.type && rule.type !== "literal" && rule.type !== "regex") {
+      throw new Error(`${label}: unknown type "${rule.type}"`);
+    }
+    if (rule.type === "regex") {
+      try {
+        regexPattern(rule.from, rule.flags);
+        if (rule.inverse) regexPattern(rule.inverse.from, rule.flags);
+      } catch (err) {
+        throw new Error(`${label}: ${String(err)}`);
+      }
+    }
+  }
+}
+
+export function applyRules(
+  content: string,
+  rules: RewriteRule[],
+  target: string,
+  direction: "to-agents" | "to-claude"
+): string {
+  const applicable = rules.filter(
+    (rule) => !rule.targets || rule.targets.includes(target)
+  );
+  // Undo in reverse order so chained rules unwind correctly
+  if (direction === "to-claude") applicable.reverse();
+
+  let adapted = content;
+  for (const rule of applicable) {
+    const compiled = compileRule(rule, direction);
+    if (!compiled) continue;
+    adapted = adapted.replace(compiled.pattern, compiled.replacement);
+  }
+  return adapted;
+}
+
+/**
+ * Rewrite target text on its way back to Claude. Given the Claude text it
+ * was rendered from, lines that still read as rendered keep their Claude
+ * wording and only edited lines go through the rules backwards, so one-way
+ * rules never change lines nobody touched.
+ */
+export function restoreRules(
+  content: string,
+  original: string | null,
+  rules: RewriteRule[],
+  target: string
+): string {
+  const reverse = (text: string) =>
+    applyRules(text, rules, target, "to-claude");
+  if (original === null) return reverse(content);
+
+  const originalLines = original.split("\n");
+  const rendered = originalLines.map((line) =>
+    applyRules(line, rules, target, "to-agents")
+  );
+  // Rules that match across lines can't be traced back line by line
+  if (
+    rendered.join("\n") !== applyRules(original, rules, target, "to-agents")
+  ) {
+    return reverse(content);
+  }
+
+  const lines: string[] = [];
+  let index = 0;
+  for (const op of diffLines(rendered, content.split("\n"))) {
+    if (op.type === "+") lines.push(reverse(op.line));
+    else if (op.type === " ") lines.push(originalLines[index++]!);
+    else index++;
+  }
+  return lines.join("\n");
+}
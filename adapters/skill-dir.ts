@@ -0,0 +1,65 @@
+import { basename, join } from "path";
+import { transformAgent } from "./agent.ts";
+import { transformCodexSkillToClaude } from "./codex.ts";
+import { discoverSkillDirs } from "./discover.ts";
+import { transformSkill } from "./skill.ts";
+import type {
+  AdapterCapabilities,
+  AdapterContext,
+  SyncAdapter,
+} from "./types.ts";
+
+interface SkillDirTarget {
+  id: string;
+  label: string;
+  capabilities: AdapterCapabilities;
+  skillsDir(ctx: AdapterContext): string;
+  docPath?(root: string): string;
+  overrideDocPath?(root: string): string;
+}
+
+/**
+ * Targets that read the same `<name>/SKILL.md` layout as `.agents/skills`.
+ */
+export function createSkillDirAdapter(target: SkillDirTarget): SyncAdapter {
+  const { id, skillsDir } = target;
+
+  return {
+    id,
+    label: target.label,
+    capabilities: target.capabilities,
+    docPath: target.docPath,
+    overrideDocPath: target.overrideDocPath,
+
+    async discover(ctx) {
+      const dirs = await discoverSkillDirs(skillsDir(ctx));
+      return dirs.map((dir) => ({ name: basename(dir), path: dir }));
+    },
+
+    outputPath(name, ctx) {
+      return join(skillsDir(ctx), name);
+    },
+
+    transformOut(item, ctx) {
+      const options = {
+        rules: ctx.rules,
+        target: id,
+        projectRoot: ctx.scope === "project" ? ctx.root : undefined,
+        link: ctx.link,
+      };
+      return item.kind === "agent"
+        ? transformAgent(item.path, skillsDir(ctx), ctx.dryRun, options)
+        : transformSkill(item.path, skillsDir(ctx), ctx.dryRun, options);
+    },
+
+    transformIn(item, ctx, options = {}) {
+      return transformCodexSkillToClaude(
+        item.path,
+        join(ctx.claudeDir, "skills"),
+        join(ctx.claudeDir, "agents"),
+        ctx.dryRun,
+        { rules: ctx.rules, target: id, ...options }
+      );
+    },
+  };
+}
@@ -1,90 +1,160 @@
 import matter from "gray-matter";
 import { existsSync } from "fs";
-import { readdir, readFile, copyFile, mkdir } from "fs/promises";
-import { join, basename } from "path";
+import { lstat, readFile, rm } from "fs/promises";
+import { join, basename, relative } from "path";
+import { backupPath } from "../backup.ts";
+import { hashPath } from "../manifest.ts";
+import {
+  copyTree,
+  itemAction,
+  listTree,
+  removeStaleFiles,
+  writeLink,
+  writeOutput,
+  type WriteAction,
+  type WrittenFile,
+} from "./copy.ts";
+import { toAgentsFrontmatter } from "./frontmatter.ts";
+import { applyRules, DEFAULT_RULES, type RewriteRule } from "./rules.ts";
+import { withProvenanceHeader } from "./provenance.ts";
 
 export interface SyncedSkill {
   name: string;
   outputPath: string;
-  files: string[];
+  action: WriteAction;
+  files: WrittenFile[];
+  // Symlinked to the Claude skill instead of generated
+  linked?: boolean;
+  // Files left from an earlier sync that the source no longer has
+  removed?: string[];
 }
 
-function toCodexFrontmatter(data: Record<string, unknown>): Record<string, unknown> {
-  const codex: Record<string, unknown> = {};
-  if (data.name) codex.name = data.name;
-  if (data.description) codex.description = data.description;
-  // Strip Claude-specific fields
-  return codex;
+export interface TransformOptions {
+  rules?: RewriteRule[];
+  // Target id used to pick rewrite rules
+  target?: string;
+  // Project root for project-scoped items (provenance paths are relative)
+  projectRoot?: string;
+  // Symlink the output to the Claude skill when nothing needs rewriting
+  link?: boolean;
 }
 
-function adaptContent(content: string): string {
-  let adapted = content;
+async function isSymlink(path: string): Promise<boolean> {
+  try {
+    return (await lstat(path)).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
 
-  // Adapt tool references
-  adapted = adapted.replace(/\bUse the Read tool\b/g, "Read the file");
-  adapted = adapted.replace(/\bUse the Write tool\b/g, "Write to the file");
-  adapted = adapted.replace(/\bUse the Glob tool\b/g, "Search for files");
-  adapted = adapted.replace(/\bUse the Grep tool\b/g, "Search file contents");
-  adapted = adapted.replace(/\bUse the Edit tool\b/g, "Edit the file");
-  adapted = adapted.replace(/\bUse the Bash tool\b/g, "Run the command");
+/**
+ * Whether a Claude skill reads the same in the target, i.e. no frontmatter
+ * has to move and no rewrite rule matches.
+ */
+export async function canLinkSkill(
+  skillDir: string,
+  rules: RewriteRule[],
+  target: string
+): Promise<boolean> {
+  for (const entry of await listTree(skillDir)) {
+    if (entry.kind !== "file" || !entry.path.endsWith(".md")) continue;
 
-  return adapted;
+    const { data, content } = matter(
+      await readFile(join(skillDir, entry.path), "utf-8")
+    );
+    if (
+      JSON.stringify(toAgentsFrontmatter(data)) !== JSON.stringify(data) ||
+      applyRules(content, rules, target, "to-agents") !== content
+    ) {
+      return false;
+    }
+  }
+  return true;
 }
 
 export async function transformSkill(
   skillDir: string,
   outputDir: string,
-  dryRun: boolean
+  dryRun: boolean,
+  options: TransformOptions = {}
 ): Promise<SyncedSkill | null> {
+  const {
+    rules = DEFAULT_RULES,
+    target = "agents",
+    projectRoot,
+    link = false,
+  } = options;
+  const adaptContent = (text: string) =>
+    applyRules(text, rules, target, "to-agents");
+
   const skillMdPath = join(skillDir, "SKILL.md");
   if (!existsSync(skillMdPath)) return null;
 
   const name = basename(skillDir);
+  const outDir = join(outputDir, name);
+
+  if (link && (await canLinkSkill(skillDir, rules, target))) {
+    const action = await writeLink(
+      outDir,
+      relative(outputDir, skillDir),
+      dryRun
+    );
+    return {
+      name,
+      outputPath: outDir,
+      action,
+      files: [{ path: outDir, action }],
+      linked: true,
+    };
+  }
+
   const raw = await readFile(skillMdPath, "utf-8");
   const { data, content } = matter(raw);
 
-  const codexFrontmatter = toCodexFrontmatter(data);
-  const adaptedContent = adaptContent(content);
-
-  const output = matter.stringify(adaptedContent.trimStart(), codexFrontmatter);
+  const codexFrontmatter = toAgentsFrontmatter(data);
+  const adaptedContent = withProvenanceHeader(
+    adaptContent(content),
+    "skill",
+    skillDir,
+    await hashPath(skillDir),
+    projectRoot
+  );
 
-  const outDir = join(outputDir, name);
-  const outFile = join(outDir, "SKILL.md");
-  const files = [outFile];
+  const output = matter.stringify(adaptedContent, codexFrontmatter);
 
-  if (!dryRun) {
-    await mkdir(outDir, { recursive: true });
-    await Bun.write(outFile, output);
+  // A previous --link run left a symlink; writing through it would
+  // overwrite the Claude skill
+  const replacesLink = await isSymlink(outDir);
+  if (replacesLink && !dryRun) {
+    await backupPath(outDir);
+    await rm(outDir);
+  }
 
-    // Copy .ts files into scripts/
-    const entries = await readdir(skillDir);
-    const tsFiles = entries.filter(
-      (e) => e.endsWith(".ts") && e !== "SKILL.md"
-    );
-    if (tsFiles.length > 0) {
-      const scriptsDir = join(outDir, "scripts");
-      await mkdir(scriptsDir, { recursive: true });
-      for (const f of tsFiles) {
-        await copyFile(join(skillDir, f), join(scriptsDir, f));
-        files.push(join(scriptsDir, f));
-      }
-    }
+  const outFile = join(outDir, "SKILL.md");
+  const files: WrittenFile[] = [
+    { path: outFile, action: await writeOutput(outFile, output, { dryRun }) },
+  ];
 
-    // Copy sub-markdown files (individual skill docs)
-    const mdFiles = entries.filter(
-      (e) => e.endsWith(".md") && e !== "SKILL.md"
-    );
-    for (const f of mdFiles) {
-      const mdRaw = await readFile(join(skillDir, f), "utf-8");
-      const mdParsed = matter(mdRaw);
-      const mdOut = matter.stringify(
-        adaptContent(mdParsed.content).trimStart(),
-        toCodexFrontmatter(mdParsed.data)
-      );
-      await Bun.write(join(outDir, f), mdOut);
-      files.push(join(outDir, f));
-    }
-  }
+  files.push(
+    ...(await copyTree(skillDir, outDir, {
+      mapPath: (path) => (path === "SKILL.md" ? null : path),
+      transformMarkdown: (raw) => {
+        const parsed = matter(raw);
+        return matter.stringify(
+          adaptContent(parsed.content).trimStart(),
+          toAgentsFrontmatter(parsed.data)
+        );
+      },
+      dryRun,
+    }))
+  );
+  const removed = await removeStaleFiles(outDir, files, dryRun);
 
-  return { name, outputPath: outDir, files };
+  return {
+    name,
+    outputPath: outDir,
+    action: replacesLink ? "updated" : itemAction(files, removed),
+    files,
+    removed,
+  };
 }
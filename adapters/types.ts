@@ -0,0 +1,83 @@
+import type { RewriteRule } from "./rules.ts";
+import type { SyncedSkill } from "./skill.ts";
+import type { SyncedClaudeItem, ToClaudeOptions } from "./codex.ts";
+
+export type ItemKind = "skill" | "agent" | "command";
+export type SyncScope = "global" | "project";
+
+export interface ClaudeItem {
+  // Commands in subfolders are namespaced: "frontend/component"
+  name: string;
+  kind: ItemKind;
+  // Skill directory, or agent or command markdown file
+  path: string;
+}
+
+export interface TargetItem {
+  name: string;
+  path: string;
+}
+
+export interface AdapterContext {
+  scope: SyncScope;
+  // Home directory for the global scope, project root for the project scope
+  root: string;
+  claudeDir: string;
+  agentsSkillsDir: string;
+  codexSkillsDir: string;
+  dryRun: boolean;
+  rules?: RewriteRule[];
+  cleanupCodex: boolean;
+  // Symlink skills that need no rewriting instead of copying them
+  link?: boolean;
+}
+
+export interface AdapterCapabilities {
+  scopes: SyncScope[];
+  skills: boolean;
+  agents: boolean;
+  commands?: boolean;
+  // Items found in the target can be brought back into Claude
+  toClaude: boolean;
+  // How the instruction file from docPath follows the project CLAUDE.md
+  docs?: "bidirectional" | "to-target";
+}
+
+export interface MigrationResult {
+  migrated: SyncedSkill[];
+  deleted: string[];
+}
+
+export interface SyncAdapter {
+  id: string;
+  label: string;
+  capabilities: AdapterCapabilities;
+  // Items currently present in the target
+  discover(ctx: AdapterContext): Promise<TargetItem[]>;
+  // Where a Claude item with this name lands in the target
+  outputPath?(name: string, ctx: AdapterContext): string;
+  transformOut?(
+    item: ClaudeItem,
+    ctx: AdapterContext
+  ): Promise<SyncedSkill | null>;
+  transformIn?(
+    item: TargetItem,
+    ctx: AdapterContext,
+    options?: ToClaudeOptions
+  ): Promise<SyncedClaudeItem | null>;
+  // Legacy targets hand their items over to .agents instead
+  migrate?(
+    ctx: AdapterContext,
+    claimed: Set<string>,
+    isSelected: (name: string) => boolean
+  ): Promise<MigrationResult>;
+  // Instruction file kept in sync with the project CLAUDE.md
+  docPath?(root: string): string;
+  // Personal instruction file that replaces docPath, generated from
+  // CLAUDE.md plus CLAUDE.local.md
+  overrideDocPath?(root: string): string;
+  // User-level instruction file kept in sync with the global CLAUDE.md
+  globalDocPath?(ctx: AdapterContext): string;
+  // Config file whose MCP servers follow the Claude ones
+  mcpConfigPath?(ctx: AdapterContext): string;
+}
@@ -0,0 +1,20 @@
+import { join } from "path";
+import { createRuleFileAdapter } from "./rule-file.ts";
+
+// Windsurf workspace rules, activated by model decision
+export const windsurfAdapter = createRuleFileAdapter({
+  id: "windsurf",
+  label: "Windsurf",
+  capabilities: {
+    scopes: ["project"],
+    skills: true,
+    agents: true,
+    toClaude: true,
+  },
+  rulesDir: (root) => join(root, ".windsurf", "rules"),
+  extension: ".md",
+  ruleFrontmatter: (description) => ({
+    trigger: "model_decision",
+    description: description ?? "",
+  }),
+});
@@ -0,0 +1,206 @@
+import { existsSync } from "fs";
+import { cp, lstat, mkdir, readdir, readFile, rm } from "fs/promises";
+import { dirname, join } from "path";
+
+export interface JournalEntry {
+  path: string;
+  // Copy of the path before the run, relative to the run directory.
+  // Missing when the run created the path.
+  backup?: string;
+}
+
+export interface RunJournal {
+  id: string;
+  command: "sync" | "undo";
+  cwd: string;
+  startedAt: string;
+  finishedAt?: string;
+  // Links between a sync run and the undo that restored it
+  undoes?: string;
+  undoneBy?: string;
+  entries: JournalEntry[];
+}
+
+interface ActiveRun {
+  dir: string;
+  journal: RunJournal;
+  seen: Set<string>;
+  // Snapshots of files other than the manifest
+  userWrites: number;
+}
+
+export const DEFAULT_KEEP_BACKUPS = 20;
+const JOURNAL_FILE = "journal.json";
+
+// Only one run records at a time; write sites call backupPath unconditionally
+let active: ActiveRun | null = null;
+
+export function defaultBackupDir(agentsSkillsDir: string): string {
+  return join(dirname(agentsSkillsDir), ".sync-agents", "backups");
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function newRunId(storeDir: string): string {
+  const base = new Date().toISOString().replace(/[:.]/g, "-");
+  let id = base;
+  for (let n = 1; existsSync(join(storeDir, id)); n++) id = `${base}-${n}`;
+  return id;
+}
+
+async function saveJournal(dir: string, journal: RunJournal): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  await Bun.write(
+    join(dir, JOURNAL_FILE),
+    JSON.stringify(journal, null, 2) + "\n"
+  );
+}
+
+/**
+ * Start recording the paths the following writes touch. Nothing is stored
+ * unless something is actually backed up.
+ */
+export function beginRun(
+  storeDir: string,
+  command: RunJournal["command"] = "sync"
+): void {
+  const id = newRunId(storeDir);
+  active = {
+    dir: join(storeDir, id),
+    journal: {
+      id,
+      command,
+      cwd: process.cwd(),
+      startedAt: new Date().toISOString(),
+      entries: [],
+    },
+    seen: new Set(),
+    userWrites: 0,
+  };
+}
+
+/**
+ * Snapshot a file or directory before it is overwritten or removed. Paths
+ * that don't exist yet are recorded so undo can remove them again.
+ * Internal files like the manifest are restored on undo, but writing only
+ * them doesn't keep the run.
+ */
+export async function backupPath(
+  path: string,
+  { internal = false }: { internal?: boolean } = {}
+): Promise<void> {
+  const run = active;
+  if (!run || run.seen.has(path)) return;
+  run.seen.add(path);
+  if (!internal) run.userWrites++;
+
+  const entry: JournalEntry = { path };
+  if (await pathExists(path)) {
+    entry.backup = join("files", String(run.journal.entries.length));
+    await mkdir(join(run.dir, "files"), { recursive: true });
+    await cp(path, join(run.dir, entry.backup), {
+      recursive: true,
+      verbatimSymlinks: true,
+      preserveTimestamps: true,
+    });
+  }
+  run.journal.entries.push(entry);
+  // Saved as we go so an interrupted run can still be undone
+  if (run.userWrites > 0) await saveJournal(run.dir, run.journal);
+}
+
+/**
+ * Finish the active run and drop the oldest runs beyond `keep`.
+ * Returns the run id, or null when nothing was backed up.
+ */
+export async function endRun(
+  keep = DEFAULT_KEEP_BACKUPS
+): Promise<string | null> {
+  const run = active;
+  active = null;
+  if (!run) return null;
+  if (run.userWrites === 0) {
+    await rm(run.dir, { recursive: true, force: true });
+    return null;
+  }
+
+  run.journal.finishedAt = new Date().toISOString();
+  await saveJournal(run.dir, run.journal);
+  await pruneRuns(dirname(run.dir), keep);
+  return run.journal.id;
+}
+
+export async function listRuns(storeDir: string): Promise<RunJournal[]> {
+  if (!existsSync(storeDir)) return [];
+  const entries = await readdir(storeDir, { withFileTypes: true });
+  const runs: RunJournal[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const path = join(storeDir, entry.name, JOURNAL_FILE);
+    if (!existsSync(path)) continue;
+    runs.push(JSON.parse(await readFile(path, "utf-8")) as RunJournal);
+  }
+  // Newest first
+  return runs.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+async function pruneRuns(storeDir: string, keep: number): Promise<void> {
+  const runs = await listRuns(storeDir);
+  for (const run of runs.slice(Math.max(keep, 1))) {
+    await rm(join(storeDir, run.id), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Put every path touched by a run back the way it was. Defaults to the most
+ * recent sync that hasn't been undone. The undo is itself recorded as a run.
+ */
+export async function undoRun(
+  storeDir: string,
+  runId?: string,
+  keep = DEFAULT_KEEP_BACKUPS
+): Promise<RunJournal> {
+  const runs = await listRuns(storeDir);
+  const target = runId
+    ? runs.find((run) => run.id === runId)
+    : runs.find((run) => run.command === "sync" && !run.undoneBy);
+  if (!target) {
+    throw new Error(
+      runId ? `Unknown run: ${runId}` : "No sync run left to undo"
+    );
+  }
+
+  const runDir = join(storeDir, target.id);
+  beginRun(storeDir, "undo");
+  const undoId = active!.journal.id;
+  active!.journal.undoes = target.id;
+
+  try {
+    // Reverse order so the earliest snapshot of a path wins
+    for (const entry of [...target.entries].reverse()) {
+      await backupPath(entry.path);
+      await rm(entry.path, { recursive: true, force: true });
+      if (entry.backup) {
+        await mkdir(dirname(entry.path), { recursive: true });
+        await cp(join(runDir, entry.backup), entry.path, {
+          recursive: true,
+          verbatimSymlinks: true,
+          preserveTimestamps: true,
+        });
+      }
+    }
+    target.undoneBy = undoId;
+    await saveJournal(runDir, target);
+  } finally {
+    await endRun(keep);
+  }
+
+  return target;
+}
@@ -0,0 +1,328 @@
+import matter from "gray-matter";
+import { existsSync, statSync } from "fs";
+import { copyFile, mkdir, mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join, resolve } from "path";
+import { backupPath } from "./backup.ts";
+import { copyTree } from "./adapters/copy.ts";
+import { discoverAgents, discoverSkillDirs } from "./adapters/discover.ts";
+import { toAgentsFrontmatter } from "./adapters/frontmatter.ts";
+import {
+  applyRules,
+  DEFAULT_RULES,
+  type RewriteRule,
+} from "./adapters/rules.ts";
+import { installScope } from "./install.ts";
+import { hashPath } from "./manifest.ts";
+import {
+  matchesFilters,
+  planScopes,
+  syncItem,
+  type ScopeResult,
+  type SyncOptions,
+} from "./sync.ts";
+import pkg from "./package.json";
+
+const MANIFEST = "manifest.json";
+// Names made only of dots would point at the folder itself or its parent
+const NAME_RE = /^(?!\.+$)[\w.@-]+$/;
+
+export type BundleLayout = "claude" | "agents";
+
+export interface BundleItem {
+  name: string;
+  kind: "skill" | "agent";
+  // Claude layout path inside the bundle: skills/<name> or agents/<name>.md
+  path: string;
+  hash: string;
+  // Frontmatter of SKILL.md or the agent file, as written in Claude
+  frontmatter: Record<string, unknown>;
+}
+
+export interface BundleManifest {
+  version: 1;
+  createdAt: string;
+  createdBy: string;
+  items: BundleItem[];
+}
+
+export interface ExportResult {
+  output: string;
+  items: BundleItem[];
+}
+
+export interface ImportedItem {
+  name: string;
+  kind: "skill" | "agent";
+  outputPath: string;
+  // A collision is an existing item with other content, left alone
+  action: "created" | "replaced" | "unchanged" | "collision" | "skipped";
+  // Why an item was skipped or collided
+  reason?: string;
+}
+
+export interface ImportResult {
+  layout: BundleLayout;
+  items: ImportedItem[];
+  // Sync of the imported Claude items into the targets
+  synced: ScopeResult[];
+}
+
+export interface BundleOptions extends SyncOptions {
+  // Export from, or import into, the project instead of the global setup
+  project?: boolean;
+  // Names or globs to pack or unpack (default: all)
+  only?: string[];
+  // Where imported items land (default: claude)
+  layout?: BundleLayout;
+  // Replace existing items whose content differs
+  force?: boolean;
+}
+
+async function tar(args: string[]): Promise<void> {
+  const result = await Bun.$`tar ${args}`.quiet().nothrow();
+  if (result.exitCode !== 0) {
+    const output = result.stderr.toString().trim().split("\n")[0];
+    throw new Error(`tar failed: ${output}`);
+  }
+}
+
+function isSelected(name: string, options: BundleOptions): boolean {
+  return matchesFilters(name, options.only ?? options.include, options.exclude);
+}
+
+/**
+ * Pack the skills and agents of the Claude directory, as they are, into a
+ * gzipped tarball with a manifest of their names, kinds, hashes and
+ * frontmatter. Skills win over agents with the same name, as in a sync.
+ */
+export async function exportBundle(
+  output: string,
+  options: BundleOptions
+): Promise<ExportResult> {
+  const run = (
+    await planScopes({
+      ...options,
+      syncGlobal: !options.project,
+      syncLocal: Boolean(options.project),
+    })
+  )[0];
+  if (!run) throw new Error("No .claude directory in this project");
+  const { claudeDir } = run.ctx;
+  const outputPath = resolve(options.cwd ?? process.cwd(), output);
+
+  const sources: {
+    item: Omit<BundleItem, "hash" | "frontmatter">;
+    src: string;
+  }[] = [];
+  for (const dir of await discoverSkillDirs(join(claudeDir, "skills"))) {
+    const name = basename(dir);
+    sources.push({
+      item: { name, kind: "skill", path: `skills/${name}` },
+      src: dir,
+    });
+  }
+  const skillNames = new Set(sources.map(({ item }) => item.name));
+  for (const file of await discoverAgents(claudeDir)) {
+    const name = basename(file, ".md");
+    if (skillNames.has(name)) continue;
+    sources.push({
+      item: { name, kind: "agent", path: `agents/${name}.md` },
+      src: file,
+    });
+  }
+
+  const items: BundleItem[] = [];
+  for (const { item, src } of sources) {
+    if (!isSelected(item.name, options)) continue;
+    const main = item.kind === "skill" ? join(src, "SKILL.md") : src;
+    const { data } = matter(await readFile(main, "utf-8"));
+    items.push({ ...item, hash: (await hashPath(src))!, frontmatter: data });
+  }
+  if (items.length === 0) throw new Error("No skills or agents to export");
+
+  if (!options.dryRun) {
+    const staging = await mkdtemp(join(tmpdir(), "sync-agents-"));
+    try {
+      for (const { item, src } of sources) {
+        if (!items.some((picked) => picked.path === item.path)) continue;
+        const dest = join(staging, item.path);
+        if (item.kind === "skill") {
+          await copyTree(src, dest);
+        } else {
+          await mkdir(dirname(dest), { recursive: true });
+          await copyFile(src, dest);
+        }
+      }
+      const manifest: BundleManifest = {
+        version: 1,
+        createdAt: new Date().toISOString(),
+        createdBy: `sync-agents v${pkg.version}`,
+        items,
+      };
+      await Bun.write(
+        join(staging, MANIFEST),
+        JSON.stringify(manifest, null, 2) + "\n"
+      );
+      await mkdir(dirname(outputPath), { recursive: true });
+      await tar(["-czf", outputPath, "-C", staging, "."]);
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  return { output: outputPath, items };
+}
+
+async function readBundleManifest(dir: string): Promise<BundleManifest> {
+  const path = join(dir, MANIFEST);
+  if (!existsSync(path)) throw new Error("Not a sync-agents bundle");
+  const manifest = JSON.parse(await readFile(path, "utf-8")) as BundleManifest;
+  if (manifest.version !== 1) {
+    throw new Error(`Unsupported bundle version ${manifest.version}`);
+  }
+  for (const item of manifest.items) {
+    const expected =
+      item.kind === "skill" ? `skills/${item.name}` : `agents/${item.name}.md`;
+    if (!NAME_RE.test(item.name) || item.path !== expected) {
+      throw new Error(`Invalid bundle entry: ${item.path}`);
+    }
+  }
+  return manifest;
+}
+
+// Agents copies without a provenance header: there is no Claude source on
+// this machine for them to point at
+async function renderAgentsItem(
+  item: BundleItem,
+  src: string,
+  outDir: string,
+  rules: RewriteRule[]
+): Promise<void> {
+  const adapt = (raw: string) => {
+    const { data, content } = matter(raw);
+    return matter.stringify(
+      applyRules(content, rules, "agents", "to-agents").trimStart(),
+      toAgentsFrontmatter(data)
+    );
+  };
+  if (item.kind === "skill") {
+    await copyTree(src, outDir, { transformMarkdown: adapt });
+    return;
+  }
+  await mkdir(outDir, { recursive: true });
+  await Bun.write(
+    join(outDir, "SKILL.md"),
+    adapt(await readFile(src, "utf-8"))
+  );
+}
+
+// Bundles are untrusted, so every item has to land directly in `dir`
+function destIn(dir: string, name: string): string {
+  const dest = resolve(dir, name);
+  if (dirname(dest) !== resolve(dir)) {
+    throw new Error(`Invalid bundle entry: ${name}`);
+  }
+  return dest;
+}
+
+async function writeItem(src: string, dest: string): Promise<void> {
+  await backupPath(dest);
+  await rm(dest, { recursive: true, force: true });
+  if (statSync(src).isFile()) {
+    await mkdir(dirname(dest), { recursive: true });
+    await copyFile(src, dest);
+  } else {
+    await copyTree(src, dest);
+  }
+}
+
+/**
+ * Unpack a bundle into the Claude layout (then synced to the targets) or
+ * straight into the Agents layout. Items that already exist with other
+ * content are reported and left alone unless `force` is set.
+ */
+export async function importBundle(
+  bundle: string,
+  options: BundleOptions
+): Promise<ImportResult> {
+  const { layout = "claude" } = options;
+  const bundlePath = resolve(options.cwd ?? process.cwd(), bundle);
+  if (!existsSync(bundlePath)) throw new Error(`No such bundle: ${bundle}`);
+
+  const run = await installScope(options);
+  const { claudeDir, agentsSkillsDir } = run.ctx;
+  const result: ImportResult = { layout, items: [], synced: [] };
+
+  const staging = await mkdtemp(join(tmpdir(), "sync-agents-"));
+  try {
+    const unpacked = join(staging, "bundle");
+    await mkdir(unpacked);
+    await tar(["-xzf", bundlePath, "-C", unpacked]);
+    const manifest = await readBundleManifest(unpacked);
+
+    for (const item of manifest.items) {
+      if (!isSelected(item.name, options)) continue;
+      let src = join(unpacked, item.path);
+      const entry = { name: item.name, kind: item.kind };
+      if ((await hashPath(src)) !== item.hash) {
+        result.items.push({
+          ...entry,
+          outputPath: src,
+          action: "skipped",
+          reason: "content doesn't match the bundle manifest",
+        });
+        continue;
+      }
+
+      let dest: string;
+      if (layout === "agents") {
+        dest = destIn(agentsSkillsDir, item.name);
+        const rendered = join(staging, "agents", item.name);
+        await renderAgentsItem(
+          item,
+          src,
+          rendered,
+          options.rules ?? DEFAULT_RULES
+        );
+        src = rendered;
+      } else {
+        dest = destIn(join(claudeDir, dirname(item.path)), basename(item.path));
+      }
+
+      const existing = await hashPath(dest);
+      if (existing === (await hashPath(src))) {
+        result.items.push({ ...entry, outputPath: dest, action: "unchanged" });
+        continue;
+      }
+      if (existing && !options.force) {
+        result.items.push({
+          ...entry,
+          outputPath: dest,
+          action: "collision",
+          reason: "exists with other content (use --force)",
+        });
+        continue;
+      }
+
+      if (!options.dryRun) await writeItem(src, dest);
+      result.items.push({
+        ...entry,
+        outputPath: dest,
+        action: existing ? "replaced" : "created",
+      });
+    }
+  } finally {
+    await rm(staging, { recursive: true, force: true });
+  }
+
+  const written = result.items.filter(
+    (item) => item.action === "created" || item.action === "replaced"
+  );
+  if (!options.dryRun && layout === "claude") {
+    for (const item of written) {
+      result.synced.push(await syncItem(run, item.name, options));
+    }
+  }
+  return result;
+}
@@ -1,35 +1,107 @@
 #!/usr/bin/env bun
 import * as p from "@clack/prompts";
 import { existsSync } from "fs";
-import { basename, join } from "path";
+import { join, relative } from "path";
 import { homedir } from "os";
-import { sync } from "./sync.ts";
+import {
+  defaultClaudeDir,
+  defaultCodexDir,
+  loadConfig,
+  resolveRules,
+} from "./config.ts";
+import { DEFAULT_TARGETS, resolveAdapters } from "./adapters/index.ts";
+import {
+  hasChanges,
+  sync,
+  type ScopeResult,
+  type SyncOptions,
+  type SyncResult,
+} from "./sync.ts";
+import { watch, type WatchChange } from "./watch.ts";
+import { defaultBackupDir, DEFAULT_KEEP_BACKUPS } from "./backup.ts";
+import { historyCommand, undoCommand } from "./commands/backups.ts";
+import {
+  addCommand,
+  listCommand,
+  removeCommand,
+  updateCommand,
+} from "./commands/install.ts";
+import { exportCommand, importCommand } from "./commands/bundle.ts";
+import { diffCommand, renderDiffs } from "./commands/diff.ts";
+import { statusCommand } from "./commands/status.ts";
+import type { ItemState } from "./status.ts";
+import { lintCommand } from "./commands/lint.ts";
+import { displayPath } from "./adapters/provenance.ts";
+import type { SyncedSkill } from "./adapters/skill.ts";
+import {
+  CONFLICT_POLICIES,
+  interactiveResolver,
+  policyResolver,
+  type ConflictPolicy,
+  type ConflictResolver,
+} from "./conflicts.ts";
 
 const args = process.argv.slice(2);
 
-const isDryRun = args.includes("--dry-run");
+const flagValue = (flag: string) => {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+};
+const listFlag = (flag: string) =>
+  flagValue(flag)
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const isJson = args.includes("--json");
+const isCheck = args.includes("--check");
+const isDryRun = args.includes("--dry-run") || isCheck;
 const isGlobalOnly = args.includes("--global");
 const isLocalOnly = args.includes("--local");
 const noCleanup = args.includes("--no-cleanup");
+const pruneFlag = args.includes("--prune");
+const isWatch = args.includes("--watch");
+const noInteractive = args.includes("--no-interactive");
+const linkFlag = args.includes("--link");
+const linkDocsFlag = args.includes("--link-docs");
+const mergeDocsFlag = args.includes("--merge-docs");
+const diffFlag = args.includes("--diff");
+const configFlag = flagValue("--config");
 
-const syncGlobal = !isLocalOnly;
-const syncLocal = !isGlobalOnly;
-const cleanupCodex = !noCleanup;
-
-const sourceIdx = args.indexOf("--source");
-const sourceDir =
-  sourceIdx !== -1 && args[sourceIdx + 1]
-    ? args[sourceIdx + 1]
-    : join(homedir(), ".claude");
-
-const agentsDir = join(homedir(), ".agents", "skills");
-const codexDir = join(homedir(), ".codex", "skills");
-
-const getScopeLabel = () => {
-  if (isGlobalOnly) return "Global only (~/.claude <-> ~/.agents)";
-  if (isLocalOnly) return "Local only (current folder)";
-  return "Global + Local";
-};
+const COMMANDS = [
+  "history",
+  "undo",
+  "lint",
+  "add",
+  "update",
+  "remove",
+  "list",
+  "export",
+  "import",
+  "status",
+  "diff",
+];
+const command = args[0] && !args[0].startsWith("-") ? args[0] : undefined;
+// Flags followed by a value, so the value isn't read as an argument
+const VALUE_FLAGS = [
+  "--source",
+  "--agents-dir",
+  "--codex-dir",
+  "--include",
+  "--exclude",
+  "--config",
+  "--targets",
+  "--on-conflict",
+  "--skill",
+  "--only",
+  "--to",
+  "-o",
+  "--output",
+  "--state",
+];
+const commandArgs = args
+  .slice(1)
+  .filter((arg, i) => !arg.startsWith("-") && !VALUE_FLAGS.includes(args[i]!));
 
 const banner = [
   " ____  __   __ _   _  ____      _    ____ _____ _   _ _____ ____  ",
@@ -47,31 +119,445 @@ const formatBar = (count: number, total: number, width = 18) => {
 };
 
 const formatSummaryLine = (label: string, count: number, total: number) =>
-  `${label.padEnd(16, " ")} ${formatBar(count, total)} ${count}`;
+  `${label.padEnd(18, " ")} ${formatBar(count, total)} ${count}`;
+
+const plural = (n: number) => (n === 1 ? "file" : "files");
+
+type ItemOutput = Pick<SyncedSkill, "name" | "action" | "files" | "linked">;
+
+// Only files the run created or updated are counted
+const formatItemLine = (item: ItemOutput) => {
+  if (item.linked) return `  ${item.name.padEnd(20)} linked`;
+  const changed = item.files.filter((f) => f.action !== "unchanged").length;
+  return `  ${item.name.padEnd(20)} ${item.action.padEnd(8)} ${changed} ${plural(changed)}`;
+};
+
+const formatItemLines = (
+  skills: ItemOutput[],
+  agents: ItemOutput[],
+  commands: ItemOutput[] = []
+) => {
+  const skillLines = skills.map(formatItemLine);
+  const agentLines = agents.map(formatItemLine);
+  const commandLines = commands.map(formatItemLine);
+  return [
+    ...(skillLines.length > 0
+      ? [`Skills (${skillLines.length}):`, ...skillLines]
+      : []),
+    ...(agentLines.length > 0
+      ? [`Agents (${agentLines.length}):`, ...agentLines]
+      : []),
+    ...(commandLines.length > 0
+      ? [`Commands (${commandLines.length}):`, ...commandLines]
+      : []),
+  ];
+};
+
+const itemCount = (group: {
+  skills: unknown[];
+  agents: unknown[];
+  commands: unknown[];
+}) => group.skills.length + group.agents.length + group.commands.length;
+
+const scopeTotals = (scope: ScopeResult) => {
+  const toAgents = scope.toAgents.skills.length + scope.toAgents.agents.length;
+  const targets = scope.targets.map((target) => ({
+    id: target.target,
+    count: itemCount(target),
+  }));
+  const toTargets = targets.reduce((sum, t) => sum + t.count, 0);
+  const toClaude = itemCount(scope.toClaude);
+  const migrated = scope.migratedFromCodex.skills.length;
+  return {
+    toAgents,
+    targets,
+    toClaude,
+    migrated,
+    deleted: scope.deletedFromCodex.length,
+    conflicts: scope.conflicts.length,
+    pruned: scope.pruned.length,
+    sync: toAgents + toTargets + toClaude + migrated,
+  };
+};
+
+const scopeSummaryLines = (
+  scope: ScopeResult,
+  totals: ReturnType<typeof scopeTotals>,
+  vizTotal: number
+) => [
+  formatSummaryLine("Claude -> Agents", totals.toAgents, vizTotal),
+  ...totals.targets.map((t) =>
+    formatSummaryLine(`Claude -> ${t.id}`, t.count, vizTotal)
+  ),
+  formatSummaryLine("Codex -> Agents", totals.migrated, vizTotal),
+  formatSummaryLine("Agents -> Claude", totals.toClaude, vizTotal),
+  ...(totals.deleted > 0
+    ? [formatSummaryLine("Codex cleanup", totals.deleted, vizTotal)]
+    : []),
+  ...(totals.pruned > 0
+    ? [formatSummaryLine("Pruned", totals.pruned, vizTotal)]
+    : []),
+  ...(totals.conflicts > 0
+    ? [formatSummaryLine("Conflicts", totals.conflicts, vizTotal)]
+    : []),
+];
+
+// Docs relative to cwd, user-level ones from ~
+const docPath = (path: string) => {
+  const rel = relative(process.cwd(), path);
+  return rel.startsWith("..") ? displayPath(path) : rel;
+};
+
+const formatWatchLine = (change: WatchChange) => {
+  const time = change.time.toTimeString().slice(0, 8);
+  const label =
+    change.scope === "project" ? `project:${change.name}` : change.name;
+  const head = `${time}  ${label.padEnd(24)}`;
+  if (change.error) return `${head} error: ${change.error.split("\n")[0]}`;
+  if (change.docs) {
+    return `${head} ${[
+      ...change.docs.map((doc) => `${docPath(doc.sourcePath)} → ${doc.name}`),
+      ...(change.conflicts ?? []).map(
+        (conflict) => `conflict in ${conflict.name}`
+      ),
+    ].join(", ")}`;
+  }
+
+  const scope = change.result;
+  if (!scope) return head;
+  const actions = [
+    ...(scope.toAgents.skills.length + scope.toAgents.agents.length > 0
+      ? ["Claude → Agents"]
+      : []),
+    ...scope.targets
+      .filter((target) => itemCount(target) > 0)
+      .map((target) => `Claude → ${target.label}`),
+    ...(scope.migratedFromCodex.skills.length > 0 ? ["Codex → Agents"] : []),
+    ...(itemCount(scope.toClaude) > 0 ? ["Agents → Claude"] : []),
+    ...(scope.deletedFromCodex.length > 0 ? ["cleaned from Codex"] : []),
+    ...scope.pruned.map((item) => `pruned from ${item.target}`),
+    ...scope.conflicts.map((c) => `conflict with ${c.target}`),
+    ...scope.errors.map((e) => `error: ${e.message.split("\n")[0]}`),
+  ];
+  return `${head} ${actions.join(", ")}`;
+};
+
+const renderScopeNotes = (scope: ScopeResult, prefix = "") => {
+  if (scope.toAgents.skills.length + scope.toAgents.agents.length > 0) {
+    const linked = scope.toAgents.skills.filter((s) => s.linked).length;
+    const lines = [
+      ...formatItemLines(scope.toAgents.skills, scope.toAgents.agents),
+      ...(linked > 0
+        ? [
+            "",
+            `Linked ${linked}, materialized ${
+              scope.toAgents.skills.length +
+              scope.toAgents.agents.length -
+              linked
+            }`,
+          ]
+        : []),
+    ];
+    p.note(lines.join("\n"), `${prefix}Claude → Agents`);
+  }
+
+  for (const target of scope.targets) {
+    if (itemCount(target) === 0) continue;
+    const lines = formatItemLines(
+      target.skills,
+      target.agents,
+      target.commands
+    );
+    p.note(lines.join("\n"), `${prefix}Claude → ${target.label}`);
+  }
+
+  if (scope.migratedFromCodex.skills.length > 0) {
+    const skillLines = scope.migratedFromCodex.skills.map(formatItemLine);
+    p.note(skillLines.join("\n"), `${prefix}Codex → Agents (migrated)`);
+  }
+
+  if (itemCount(scope.toClaude) > 0) {
+    const lines = formatItemLines(
+      scope.toClaude.skills,
+      scope.toClaude.agents,
+      scope.toClaude.commands
+    );
+    p.note(lines.join("\n"), `${prefix}Agents → Claude`);
+  }
+
+  if (scope.deletedFromCodex.length > 0) {
+    const deletedLines = scope.deletedFromCodex.map((name) => `  ${name}`);
+    p.note(deletedLines.join("\n"), `${prefix}Cleaned from Codex`);
+  }
+
+  if (scope.pruned.length > 0) {
+    const prunedLines = scope.pruned.map(
+      (item) => `  ${item.name.padEnd(20)} ${item.kind} (${item.target})`
+    );
+    p.note(prunedLines.join("\n"), `${prefix}Pruned`);
+  }
+
+  if (scope.conflicts.length > 0) {
+    const conflictLines = scope.conflicts.map((c) =>
+      c.reason === "deleted-in-claude"
+        ? `  ${c.name.padEnd(20)} ${c.kind} deleted in Claude, changed in ${c.target}`
+        : `  ${c.name.padEnd(20)} ${c.kind} changed in Claude and ${c.target}`
+    );
+    p.note(
+      [
+        ...conflictLines,
+        "",
+        "Left untouched. Revert one side (or delete the target copy) to resolve.",
+      ].join("\n"),
+      `${prefix}Conflicts`
+    );
+  }
+};
+
+// --json keeps stdout machine-readable, errors included
+function fail(message: string): never {
+  if (isJson) {
+    console.log(JSON.stringify({ error: message }, null, 2));
+  } else {
+    p.log.error(message);
+  }
+  process.exit(1);
+}
+
+const isOutOfSync = (result: SyncResult) =>
+  hasChanges(result) ||
+  (result.project ? hasChanges(result.project) : false) ||
+  result.docs.length > 0 ||
+  result.globalDocs.length > 0 ||
+  result.docConflicts.length > 0 ||
+  result.mcp.length > 0 ||
+  result.mcpConflicts.length > 0;
+
+const errorCount = (result: SyncResult) =>
+  result.errors.length + (result.project?.errors.length ?? 0);
+
+if (!isJson) {
+  p.intro("Sync Agents");
+  p.note(banner);
+}
 
-p.intro("Sync Agents");
-p.note(banner);
+let loaded: Awaited<ReturnType<typeof loadConfig>>;
+try {
+  loaded = await loadConfig({ cwd: process.cwd(), configPath: configFlag });
+} catch (err) {
+  fail(String(err));
+}
+const { config } = loaded;
+
+// CLI flags win over config values
+const syncGlobal = isLocalOnly ? false : isGlobalOnly || (config.global ?? true);
+const syncLocal = isGlobalOnly ? false : isLocalOnly || (config.local ?? true);
+const cleanupCodex = noCleanup ? false : (config.cleanup ?? true);
+const prune = pruneFlag || (config.prune ?? false);
+const link = linkFlag || (config.link ?? false);
+const linkDocs = linkDocsFlag || (config.linkDocs ?? false);
+const mergeDocs = mergeDocsFlag || (config.mergeDocs ?? false);
+const targets = listFlag("--targets") ?? config.targets ?? DEFAULT_TARGETS;
+try {
+  resolveAdapters(targets);
+} catch (err) {
+  fail(String(err));
+}
+const conflictPolicy = (flagValue("--on-conflict") ?? config.conflictPolicy) as
+  ConflictPolicy | undefined;
+if (conflictPolicy && !CONFLICT_POLICIES.includes(conflictPolicy)) {
+  fail(
+    `Unknown conflict policy "${conflictPolicy}" (expected ${CONFLICT_POLICIES.join(", ")})`
+  );
+}
+// Prompts need a terminal; dry runs, watch and JSON mode never prompt
+const interactive =
+  !noInteractive &&
+  (config.interactive ?? true) &&
+  !isDryRun &&
+  !isWatch &&
+  !isJson &&
+  Boolean(process.stdin.isTTY && process.stdout.isTTY);
+const include = listFlag("--include") ?? config.include;
+const exclude = listFlag("--exclude") ?? config.exclude;
+
+const sourceDir =
+  flagValue("--source") ?? config.claudeDir ?? defaultClaudeDir();
+const agentsDir =
+  flagValue("--agents-dir") ??
+  config.agentsDir ??
+  join(homedir(), ".agents", "skills");
+const codexDir =
+  flagValue("--codex-dir") ?? config.codexDir ?? defaultCodexDir();
+const backupDir = defaultBackupDir(agentsDir);
+const keepBackups = config.keepBackups ?? DEFAULT_KEEP_BACKUPS;
+
+if (command && !COMMANDS.includes(command)) {
+  fail(`Unknown command "${command}" (expected ${COMMANDS.join(", ")})`);
+}
+if (command === "history") {
+  process.exit(await historyCommand({ backupDir, keepBackups }));
+}
+if (command === "undo") {
+  const runId = args[1]?.startsWith("-") ? undefined : args[1];
+  process.exit(await undoCommand({ backupDir, keepBackups }, runId));
+}
+
+const getScopeLabel = () => {
+  if (!syncLocal) return "Global only (~/.claude <-> ~/.agents)";
+  if (!syncGlobal) return "Local only (current project)";
+  return "Global + Local";
+};
 
 const configSummary = [
   `Mode:       ${isDryRun ? "Dry run (no writes)" : "Sync (writes enabled)"}`,
   `Scope:      ${getScopeLabel()}`,
+  `Targets:     ${targets.join(", ")}`,
+  ...(loaded.sources.length > 0
+    ? [`Config:      ${loaded.sources.join(", ")}`]
+    : []),
+  ...(include || exclude
+    ? [
+        `Filters:     ${[
+          ...(include ? [`include ${include.join(", ")}`] : []),
+          ...(exclude ? [`exclude ${exclude.join(", ")}`] : []),
+        ].join("; ")}`,
+      ]
+    : []),
   ...(syncGlobal
     ? [
         `Claude dir:  ${sourceDir}`,
         `Agents dir:  ${agentsDir}`,
         `Codex dir:   ${codexDir}${cleanupCodex ? " (cleanup enabled)" : ""}`,
+        `Prune:       ${prune ? "Remove items deleted from Claude" : "Off"}`,
+        `Link:        ${link ? "Symlink skills that need no rewriting" : "Off"}`,
       ]
     : []),
   ...(syncLocal ? [`Project:     ${process.cwd()}`] : []),
+  `Conflicts:   ${
+    interactive
+      ? "Ask"
+      : conflictPolicy
+        ? `Policy: ${conflictPolicy}`
+        : "Report"
+  }`,
 ].join("\n");
 
+const syncOptions = (resolveConflict?: ConflictResolver): SyncOptions => ({
+  claudeDir: sourceDir,
+  agentsSkillsDir: agentsDir,
+  codexSkillsDir: codexDir,
+  dryRun: isDryRun,
+  cwd: process.cwd(),
+  syncGlobal,
+  syncLocal,
+  cleanupCodex,
+  prune,
+  rules: resolveRules(config),
+  directions: config.directions,
+  include,
+  exclude,
+  targets,
+  backupDir,
+  keepBackups,
+  link,
+  linkDocs,
+  mergeDocs,
+  diff: diffFlag,
+  globalClaudeDoc: config.globalClaudeDoc,
+  globalAgentsDoc: config.globalAgentsDoc,
+  resolveConflict:
+    resolveConflict ??
+    (conflictPolicy ? policyResolver(conflictPolicy) : undefined),
+});
+
+if (command === "lint") {
+  process.exit(
+    await lintCommand({
+      ...syncOptions(),
+      fix: args.includes("--fix"),
+      json: isJson,
+    })
+  );
+}
+
+const installOptions = () => ({
+  ...syncOptions(),
+  project: isLocalOnly,
+  skills: listFlag("--skill"),
+  force: args.includes("--force"),
+  json: isJson,
+});
+if (command === "add") {
+  process.exit(await addCommand(commandArgs[0], installOptions()));
+}
+if (command === "update") {
+  process.exit(await updateCommand(commandArgs, installOptions()));
+}
+if (command === "remove") {
+  process.exit(await removeCommand(commandArgs, installOptions()));
+}
+if (command === "list") {
+  process.exit(await listCommand(installOptions()));
+}
+
+const layoutFlag = flagValue("--to");
+if (layoutFlag && layoutFlag !== "claude" && layoutFlag !== "agents") {
+  fail(`Unknown layout "${layoutFlag}" (expected claude or agents)`);
+}
+const bundleOptions = () => ({
+  ...syncOptions(),
+  project: isLocalOnly,
+  only: listFlag("--only"),
+  layout: layoutFlag as "claude" | "agents" | undefined,
+  force: args.includes("--force"),
+  json: isJson,
+});
+if (command === "export") {
+  const output = flagValue("-o") ?? flagValue("--output");
+  process.exit(await exportCommand(output, bundleOptions()));
+}
+if (command === "import") {
+  process.exit(await importCommand(commandArgs[0], bundleOptions()));
+}
+if (command === "status") {
+  process.exit(
+    await statusCommand({
+      ...syncOptions(),
+      names: commandArgs,
+      states: listFlag("--state") as ItemState[] | undefined,
+      json: isJson,
+    })
+  );
+}
+
+if (command === "diff") {
+  process.exit(
+    await diffCommand({ ...syncOptions(), names: commandArgs, json: isJson })
+  );
+}
+
+if (isJson) {
+  try {
+    const jsonResult = await sync(syncOptions());
+    console.log(JSON.stringify(jsonResult, null, 2));
+    const failed =
+      errorCount(jsonResult) > 0 || (isCheck && isOutOfSync(jsonResult));
+    process.exit(failed ? 1 : 0);
+  } catch (err) {
+    fail(String(err));
+  }
+}
+
 p.note(configSummary, "Configuration");
 
-let preflight: {
-  claudeExists: boolean;
-  agentsExists: boolean;
-  codexExists: boolean;
-} | null = null;
+let exitCode = 0;
+// Checked up front: TypeScript doesn't see assignments made in a callback
+const preflight = {
+  claudeExists: syncGlobal ? existsSync(sourceDir) : true,
+  agentsExists: syncGlobal ? existsSync(agentsDir) : true,
+  codexExists: syncGlobal ? existsSync(codexDir) : true,
+};
 let result: Awaited<ReturnType<typeof sync>> | null = null;
 
 try {
@@ -79,10 +565,7 @@ try {
     {
       title: "Preflight checks",
       task: (message) => {
-        const claudeExists = syncGlobal ? existsSync(sourceDir) : true;
-        const agentsExists = syncGlobal ? existsSync(agentsDir) : true;
-        const codexExists = syncGlobal ? existsSync(codexDir) : true;
-        preflight = { claudeExists, agentsExists, codexExists };
+        const { claudeExists, agentsExists, codexExists } = preflight;
         if (syncGlobal) {
           const parts = [
             claudeExists ? "Claude OK" : "Claude missing",
@@ -95,23 +578,27 @@ try {
         }
       },
     },
-    {
-      title: isDryRun ? "Calculating changes" : "Syncing skills, agents & docs",
-      task: async (message) => {
-        message("Transforming and merging items");
-        result = await sync({
-          claudeDir: sourceDir,
-          agentsSkillsDir: agentsDir,
-          codexSkillsDir: codexDir,
-          dryRun: isDryRun,
-          cwd: process.cwd(),
-          syncGlobal,
-          syncLocal,
-          cleanupCodex,
-        });
-        return isDryRun ? "Preview ready" : "Sync complete";
-      },
-    },
+  ]);
+
+  // Not a task so conflict prompts can pause the spinner
+  const spinner = p.spinner();
+  const syncTitle = isDryRun
+    ? "Calculating changes"
+    : "Syncing skills, agents & docs";
+  spinner.start(syncTitle);
+  result = await sync(
+    syncOptions(
+      interactive
+        ? interactiveResolver({
+            onPause: () => spinner.stop("Conflict found"),
+            onResume: () => spinner.start(syncTitle),
+          })
+        : undefined
+    )
+  );
+  spinner.stop(isDryRun ? "Preview ready" : "Sync complete");
+
+  await p.tasks([
     {
       title: "Rendering summary",
       task: (message) => {
@@ -125,121 +612,167 @@ try {
     throw new Error("Sync failed to produce a result.");
   }
 
-  const toAgentsTotal =
-    result.toAgents.skills.length + result.toAgents.agents.length;
-  const toClaudeTotal =
-    result.toClaude.skills.length + result.toClaude.agents.length;
-  const migratedTotal = result.migratedFromCodex.skills.length;
-  const deletedTotal = result.deletedFromCodex.length;
-  const syncTotal = toAgentsTotal + toClaudeTotal + migratedTotal;
-  const docTotal = result.docs.length;
+  const globalTotals = scopeTotals(result);
+  const projectTotals = result.project ? scopeTotals(result.project) : null;
+  const syncTotal = globalTotals.sync + (projectTotals?.sync ?? 0);
+  const docTotal = result.docs.length + result.globalDocs.length;
+  const mcpTotal = result.mcp.length;
+  const conflictTotal =
+    globalTotals.conflicts +
+    (projectTotals?.conflicts ?? 0) +
+    result.docConflicts.length +
+    result.mcpConflicts.length;
+  const prunedTotal = globalTotals.pruned + (projectTotals?.pruned ?? 0);
 
-  if (preflight && !preflight.claudeExists) {
+  if (!preflight.claudeExists) {
     p.log.warn("Claude directory is missing.");
   }
 
-  if (syncTotal === 0 && docTotal === 0) {
-    const scopeMsg = isLocalOnly
-      ? "No project docs to sync"
-      : isGlobalOnly
+  if (
+    syncTotal === 0 &&
+    docTotal === 0 &&
+    mcpTotal === 0 &&
+    conflictTotal === 0 &&
+    prunedTotal === 0
+  ) {
+    const scopeMsg = !syncGlobal
+      ? "No project items or docs to sync"
+      : !syncLocal
         ? `No new items to sync between ${sourceDir} and ${agentsDir}`
         : `No new items to sync`;
-    p.log.warn(scopeMsg);
+    const upToDate =
+      result.unchanged.length + (result.project?.unchanged.length ?? 0);
+    p.log.warn(
+      upToDate > 0 ? `${scopeMsg} (${upToDate} already up to date)` : scopeMsg
+    );
   } else {
-    const vizTotal = Math.max(syncTotal + docTotal, syncTotal, docTotal, 1);
+    const vizTotal = Math.max(syncTotal + docTotal + mcpTotal + prunedTotal, 1);
     const summaryLines = [
-      ...(syncGlobal
+      ...(syncGlobal ? scopeSummaryLines(result, globalTotals, vizTotal) : []),
+      ...(projectTotals
         ? [
-            formatSummaryLine("Claude -> Agents", toAgentsTotal, vizTotal),
-            formatSummaryLine("Codex -> Agents", migratedTotal, vizTotal),
-            formatSummaryLine("Agents -> Claude", toClaudeTotal, vizTotal),
-            ...(deletedTotal > 0
-              ? [formatSummaryLine("Codex cleanup", deletedTotal, vizTotal)]
-              : []),
+            formatSummaryLine(
+              "Project items",
+              projectTotals.sync + projectTotals.pruned,
+              vizTotal
+            ),
           ]
         : []),
       ...(syncLocal
-        ? [formatSummaryLine("Project docs", docTotal, vizTotal)]
+        ? [formatSummaryLine("Project docs", result.docs.length, vizTotal)]
+        : []),
+      ...(syncGlobal
+        ? [formatSummaryLine("Global docs", result.globalDocs.length, vizTotal)]
+        : []),
+      ...(syncGlobal || mcpTotal > 0
+        ? [formatSummaryLine("MCP servers", mcpTotal, vizTotal)]
         : []),
-      formatSummaryLine("Total changes", syncTotal + docTotal, vizTotal),
+      formatSummaryLine(
+        "Total changes",
+        syncTotal + docTotal + mcpTotal + prunedTotal,
+        vizTotal
+      ),
     ];
 
     p.note(summaryLines.join("\n"), "Sync Summary");
+    renderScopeNotes(result);
 
-    if (toAgentsTotal > 0) {
-      const plural = (n: number) => (n === 1 ? "file" : "files");
-      const skillLines = result.toAgents.skills.map(
-        (s) => `  ${s.name.padEnd(20)} ${s.files.length} ${plural(s.files.length)}`
+    if (result.project && projectTotals) {
+      const projectViz = Math.max(projectTotals.sync + projectTotals.pruned, 1);
+      p.note(
+        scopeSummaryLines(result.project, projectTotals, projectViz).join("\n"),
+        `Project Summary (${result.project.root})`
       );
-      const agentLines = result.toAgents.agents.map(
-        (a) => `  ${a.name.padEnd(20)} ${a.files.length} ${plural(a.files.length)}`
-      );
-      const lines = [
-        ...(skillLines.length > 0
-          ? [`Skills (${skillLines.length}):`, ...skillLines]
-          : []),
-        ...(agentLines.length > 0
-          ? [`Agents (${agentLines.length}):`, ...agentLines]
-          : []),
-      ];
-      p.note(lines.join("\n"), "Claude → Agents");
+      renderScopeNotes(result.project, "Project: ");
     }
 
-    if (migratedTotal > 0) {
-      const plural = (n: number) => (n === 1 ? "file" : "files");
-      const skillLines = result.migratedFromCodex.skills.map(
-        (s) => `  ${s.name.padEnd(20)} ${s.files.length} ${plural(s.files.length)}`
+    for (const [docs, title] of [
+      [result.docs, "Project Docs"],
+      [result.globalDocs, "Global Docs"],
+    ] as const) {
+      if (docs.length === 0) continue;
+      const docLines = docs.map(
+        (doc) =>
+          `  ${docPath(doc.sourcePath).padEnd(20)} → ${docPath(doc.outputPath)} (${doc.action})`
       );
-      p.note(skillLines.join("\n"), "Codex → Agents (migrated)");
+      p.note(docLines.join("\n"), title);
     }
 
-    if (toClaudeTotal > 0) {
-      const plural = (n: number) => (n === 1 ? "file" : "files");
-      const skillLines = result.toClaude.skills.map(
-        (s) => `  ${s.name.padEnd(20)} ${s.files.length} ${plural(s.files.length)}`
+    if (result.docConflicts.length > 0) {
+      const conflictLines = result.docConflicts.map(
+        (c) =>
+          `  ${docPath(c.claudePath).padEnd(20)} changed alongside ${docPath(c.targetPath)}`
       );
-      const agentLines = result.toClaude.agents.map(
-        (a) => `  ${a.name.padEnd(20)} ${a.files.length} ${plural(a.files.length)}`
+      p.note(
+        [
+          ...conflictLines,
+          "",
+          "Left untouched. Pick a side with --on-conflict, or try --merge-docs.",
+        ].join("\n"),
+        "Doc Conflicts"
       );
-      const lines = [
-        ...(skillLines.length > 0
-          ? [`Skills (${skillLines.length}):`, ...skillLines]
-          : []),
-        ...(agentLines.length > 0
-          ? [`Agents (${agentLines.length}):`, ...agentLines]
-          : []),
-      ];
-      p.note(lines.join("\n"), "Agents → Claude");
     }
 
-    if (deletedTotal > 0) {
-      const deletedLines = result.deletedFromCodex.map(
-        (name) => `  ${name}`
+    if (mcpTotal > 0) {
+      const mcpLines = result.mcp.map(
+        (server) =>
+          `  ${server.name.padEnd(20)} → ${server.target}${server.scope === "project" ? " (project)" : ""} (${server.action})`
       );
-      p.note(deletedLines.join("\n"), "Cleaned from Codex");
+      p.note(mcpLines.join("\n"), "MCP Servers");
     }
 
-    if (docTotal > 0) {
-      const docLines = result.docs.map((doc) => {
-        const sourceName = basename(doc.sourcePath);
-        const destName = basename(doc.outputPath);
-        return `  ${sourceName.padEnd(20)} → ${destName} (${doc.action})`;
-      });
-      p.note(docLines.join("\n"), "Project Docs");
+    if (result.mcpConflicts.length > 0) {
+      const conflictLines = result.mcpConflicts.map((c) =>
+        c.reason === "deleted-in-claude"
+          ? `  ${c.name.padEnd(20)} deleted in Claude, changed in Codex`
+          : `  ${c.name.padEnd(20)} changed in Claude and Codex`
+      );
+      p.note(
+        [
+          ...conflictLines,
+          "",
+          "Left untouched. Pick a side with --on-conflict.",
+        ].join("\n"),
+        "MCP Conflicts"
+      );
     }
   }
 
-  if (result.errors.length > 0) {
-    const errorLines = result.errors.map(
+  if (result.diffs && result.diffs.length > 0) renderDiffs(result.diffs);
+
+  const errors = [...result.errors, ...(result.project?.errors ?? [])];
+  if (errors.length > 0) {
+    const errorLines = errors.map(
       (e) => `  ${e.name.padEnd(20)} ${e.message.split("\n")[0]}`
     );
     p.log.warn(
-      `Skipped ${result.errors.length} item(s) due to errors:\n${errorLines.join("\n")}`
+      `Skipped ${errors.length} item(s) due to errors:\n${errorLines.join("\n")}`
     );
+    exitCode = 1;
+  }
+  if (isCheck && isOutOfSync(result)) exitCode = 1;
+  if (result.runId) {
+    p.log.info(`Backed up as ${result.runId} (revert with: sync-agents undo)`);
   }
 } catch (err) {
-  p.log.error(String(err));
-  process.exit(1);
+  fail(String(err));
 }
 
-p.outro(isDryRun ? "Dry run complete" : "Sync complete");
+if (isCheck) {
+  p.outro(exitCode === 0 ? "Everything is in sync" : "Out of sync");
+  process.exit(exitCode);
+} else if (isWatch && !isDryRun) {
+  p.log.info("Watching for changes (Ctrl+C to stop)");
+  const stop = await watch({
+    ...syncOptions(),
+    onChange: (change) => console.log(formatWatchLine(change)),
+  });
+  process.on("SIGINT", () => {
+    stop();
+    p.outro("Stopped watching");
+    process.exit(0);
+  });
+} else {
+  p.outro(isDryRun ? "Dry run complete" : "Sync complete");
+  process.exit(exitCode);
+}
@@ -0,0 +1,48 @@
+import * as p from "@clack/prompts";
+import { listRuns, undoRun, type RunJournal } from "../backup.ts";
+
+export interface BackupCommandOptions {
+  backupDir: string;
+  keepBackups: number;
+}
+
+function describeRun(run: RunJournal): string {
+  const paths = `${run.entries.length} path${run.entries.length === 1 ? "" : "s"}`;
+  const status = run.undoneBy
+    ? " (undone)"
+    : run.undoes
+      ? ` (undo of ${run.undoes})`
+      : "";
+  return `  ${run.id.padEnd(28)} ${run.command.padEnd(5)} ${paths.padEnd(10)} ${run.cwd}${status}`;
+}
+
+export async function historyCommand(
+  options: BackupCommandOptions
+): Promise<number> {
+  const runs = await listRuns(options.backupDir);
+  if (runs.length === 0) {
+    p.log.warn(`No runs recorded in ${options.backupDir}`);
+    return 0;
+  }
+  p.note(runs.map(describeRun).join("\n"), `History (${runs.length})`);
+  p.outro("Undo a run with: sync-agents undo [run-id]");
+  return 0;
+}
+
+export async function undoCommand(
+  options: BackupCommandOptions,
+  runId?: string
+): Promise<number> {
+  try {
+    const run = await undoRun(options.backupDir, runId, options.keepBackups);
+    const lines = run.entries.map(
+      (entry) => `  ${entry.backup ? "restored" : "removed "}  ${entry.path}`
+    );
+    p.note(lines.join("\n"), `Undid ${run.id}`);
+    p.outro("Undo complete");
+    return 0;
+  } catch (err) {
+    p.log.error(String(err));
+    return 1;
+  }
+}
@@ -0,0 +1,123 @@
+import * as p from "@clack/prompts";
+import { displayPath } from "../adapters/provenance.ts";
+import {
+  exportBundle,
+  importBundle,
+  type BundleOptions,
+  type ImportResult,
+} from "../bundle.ts";
+import { withBackups } from "../sync.ts";
+
+export interface BundleCommandOptions extends BundleOptions {
+  json: boolean;
+}
+
+function reportError(err: unknown, options: BundleCommandOptions): number {
+  if (options.json) {
+    console.log(JSON.stringify({ error: String(err) }, null, 2));
+  } else {
+    p.log.error(String(err));
+  }
+  return 1;
+}
+
+export async function exportCommand(
+  output: string | undefined,
+  options: BundleCommandOptions
+): Promise<number> {
+  if (!output) {
+    p.log.error("Usage: sync-agents export -o <bundle.tar.gz> [--only names]");
+    return 1;
+  }
+
+  try {
+    const result = await exportBundle(output, options);
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return 0;
+    }
+
+    const lines = result.items.map(
+      (item) => `  ${item.name.padEnd(20)} ${item.kind}`
+    );
+    p.note(lines.join("\n"), `Bundle (${result.items.length})`);
+    p.outro(
+      options.dryRun
+        ? "Dry run complete"
+        : `Wrote ${displayPath(result.output)}`
+    );
+    return 0;
+  } catch (err) {
+    return reportError(err, options);
+  }
+}
+
+function renderImport(
+  result: ImportResult,
+  runId: string | null,
+  options: BundleCommandOptions
+): number {
+  if (options.json) {
+    console.log(JSON.stringify({ ...result, runId }, null, 2));
+    return 0;
+  }
+
+  const lines = result.items.map((item) => {
+    const detail = item.reason
+      ? `: ${item.reason}`
+      : ` → ${displayPath(item.outputPath)}`;
+    return `  ${item.name.padEnd(20)} ${item.kind.padEnd(6)} ${item.action}${detail}`;
+  });
+  const layout = result.layout === "claude" ? "Claude" : "Agents";
+  if (lines.length > 0) p.note(lines.join("\n"), `Import into ${layout}`);
+
+  const collisions = result.items.filter(
+    (item) => item.action === "collision"
+  ).length;
+  if (collisions > 0) {
+    p.log.warn(
+      `${collisions} existing ${collisions === 1 ? "item differs" : "items differ"} from the bundle; replace with --force`
+    );
+  }
+  const targets = result.synced.reduce(
+    (sum, scope) =>
+      sum +
+      scope.toAgents.skills.length +
+      scope.toAgents.agents.length +
+      scope.targets.reduce(
+        (count, t) => count + t.skills.length + t.agents.length,
+        0
+      ),
+    0
+  );
+  if (targets > 0) {
+    p.log.info(
+      `Synced ${targets} ${targets === 1 ? "copy" : "copies"} to the targets`
+    );
+  }
+  if (runId) p.log.info(`Revert with: sync-agents undo ${runId}`);
+
+  p.outro(options.dryRun ? "Dry run complete" : "Done");
+  return 0;
+}
+
+export async function importCommand(
+  bundle: string | undefined,
+  options: BundleCommandOptions
+): Promise<number> {
+  if (!bundle) {
+    p.log.error(
+      "Usage: sync-agents import <bundle.tar.gz> [--to claude|agents] [--only names]"
+    );
+    return 1;
+  }
+
+  try {
+    const { value, runId } = await withBackups(options, () =>
+      importBundle(bundle, options)
+    );
+    return renderImport(value, runId, options);
+  } catch (err) {
+    return reportError(err, options);
+  }
+}
@@ -0,0 +1,51 @@
+import * as p from "@clack/prompts";
+import { colorizeDiff } from "../diff.ts";
+import type { FileDiff } from "../preview.ts";
+import { matchesFilters, sync, type SyncOptions } from "../sync.ts";
+
+export interface DiffCommandOptions extends SyncOptions {
+  // Items, docs or MCP servers to diff (default: everything)
+  names: string[];
+  json: boolean;
+}
+
+// Plain output keeps the diffs usable with a pager or a patch
+export function renderDiffs(diffs: FileDiff[]): void {
+  for (const diff of diffs) {
+    console.log(process.stdout.isTTY ? colorizeDiff(diff.diff) : diff.diff);
+    console.log();
+  }
+}
+
+/**
+ * Dry-run a sync and show, file by file, what it would change on disk.
+ */
+export async function diffCommand(
+  options: DiffCommandOptions
+): Promise<number> {
+  const { names } = options;
+  const result = await sync({
+    ...options,
+    dryRun: true,
+    diff: true,
+    include: names.length > 0 ? names : options.include,
+  });
+  const diffs = (result.diffs ?? []).filter((diff) =>
+    matchesFilters(diff.name, names, undefined)
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(diffs, null, 2));
+    return 0;
+  }
+  if (diffs.length === 0) {
+    p.outro("Nothing would change");
+    return 0;
+  }
+
+  renderDiffs(diffs);
+  p.outro(
+    `${diffs.length} ${diffs.length === 1 ? "file" : "files"} would change`
+  );
+  return 0;
+}
@@ -0,0 +1,118 @@
+import * as p from "@clack/prompts";
+import {
+  addSkills,
+  listSkills,
+  removeSkills,
+  updateSkills,
+  type InstallOptions,
+  type InstallResult,
+} from "../install.ts";
+import { withBackups } from "../sync.ts";
+
+export interface InstallCommandOptions extends InstallOptions {
+  json: boolean;
+}
+
+function renderResult(
+  result: InstallResult,
+  runId: string | null,
+  options: InstallCommandOptions
+): number {
+  if (options.json) {
+    console.log(JSON.stringify({ ...result, runId }, null, 2));
+    return 0;
+  }
+
+  const lines = result.skills.map((skill) => {
+    const commit = skill.commit ? ` @ ${skill.commit.slice(0, 7)}` : "";
+    const detail = skill.reason ? `: ${skill.reason}` : commit;
+    return `  ${skill.name.padEnd(20)} ${skill.action}${detail}`;
+  });
+  if (lines.length > 0) p.note(lines.join("\n"), "Skills");
+
+  const targets = result.synced.reduce(
+    (sum, scope) =>
+      sum +
+      scope.toAgents.skills.length +
+      scope.targets.reduce((count, t) => count + t.skills.length, 0),
+    0
+  );
+  if (targets > 0) {
+    p.log.info(
+      `Synced ${targets} ${targets === 1 ? "copy" : "copies"} to the targets`
+    );
+  }
+  if (runId) p.log.info(`Revert with: sync-agents undo ${runId}`);
+
+  p.outro(options.dryRun ? "Dry run complete" : "Done");
+  return 0;
+}
+
+async function run(
+  options: InstallCommandOptions,
+  fn: () => Promise<InstallResult>
+): Promise<number> {
+  try {
+    const { value, runId } = await withBackups(options, fn);
+    return renderResult(value, runId, options);
+  } catch (err) {
+    if (options.json) {
+      console.log(JSON.stringify({ error: String(err) }, null, 2));
+    } else {
+      p.log.error(String(err));
+    }
+    return 1;
+  }
+}
+
+export function addCommand(
+  spec: string | undefined,
+  options: InstallCommandOptions
+): Promise<number> {
+  if (!spec) {
+    p.log.error("Usage: sync-agents add <git-url|path>[#ref] [--skill name]");
+    return Promise.resolve(1);
+  }
+  return run(options, () => addSkills(spec, options));
+}
+
+export function updateCommand(
+  names: string[],
+  options: InstallCommandOptions
+): Promise<number> {
+  return run(options, () => updateSkills(names, options));
+}
+
+export function removeCommand(
+  names: string[],
+  options: InstallCommandOptions
+): Promise<number> {
+  if (names.length === 0) {
+    p.log.error("Usage: sync-agents remove <name...>");
+    return Promise.resolve(1);
+  }
+  return run(options, () => removeSkills(names, options));
+}
+
+export async function listCommand(
+  options: InstallCommandOptions
+): Promise<number> {
+  const installed = await listSkills(options);
+  if (options.json) {
+    console.log(JSON.stringify(installed, null, 2));
+    return 0;
+  }
+  if (installed.length === 0) {
+    p.log.warn("No skills installed with: sync-agents add");
+    return 0;
+  }
+
+  const lines = installed.map((skill) => {
+    const source = skill.ref ? `${skill.source}#${skill.ref}` : skill.source;
+    const status = skill.status === "ok" ? "" : ` (${skill.status})`;
+    return `  ${skill.name.padEnd(20)} ${skill.commit.slice(0, 7)}  ${source}${status}`;
+  });
+  p.note(lines.join("\n"), `Installed (${installed.length})`);
+  p.outro("Update with: sync-agents update [name...]");
+  return 0;
+}
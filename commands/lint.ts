@@ -0,0 +1,81 @@
+import * as p from "@clack/prompts";
+import { displayPath } from "../adapters/provenance.ts";
+import {
+  lint,
+  type LintIssue,
+  type LintOptions,
+  type LintResult,
+} from "../lint.ts";
+import { withBackups } from "../sync.ts";
+
+export interface LintCommandOptions extends LintOptions {
+  json: boolean;
+}
+
+const SEVERITY_ORDER = ["error", "warning", "info"] as const;
+
+function formatIssue(issue: LintIssue): string {
+  const line = issue.line ? `:${issue.line}` : "";
+  return `  ${issue.severity.padEnd(8)} ${issue.rule.padEnd(20)} ${line.padEnd(5)} ${issue.message}${issue.fixable ? " (fixable)" : ""}`;
+}
+
+function countBy(issues: LintIssue[]): string {
+  return SEVERITY_ORDER.map((severity) => {
+    const count = issues.filter((issue) => issue.severity === severity).length;
+    return `${count} ${severity}${count === 1 || severity === "info" ? "" : "s"}`;
+  }).join(", ");
+}
+
+export async function lintCommand(
+  options: LintCommandOptions
+): Promise<number> {
+  let result: LintResult;
+  let runId: string | null;
+  try {
+    // Fixes are recorded like a sync run, so they can be undone
+    ({ value: result, runId } = await withBackups(options, () =>
+      lint(options)
+    ));
+  } catch (err) {
+    if (options.json) {
+      console.log(JSON.stringify({ error: String(err) }, null, 2));
+    } else {
+      p.log.error(String(err));
+    }
+    return 1;
+  }
+  const failed = result.issues.some((issue) => issue.severity === "error");
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...result, runId }, null, 2));
+    return failed ? 1 : 0;
+  }
+
+  const byFile = new Map<string, LintIssue[]>();
+  for (const issue of result.issues) {
+    byFile.set(issue.path, [...(byFile.get(issue.path) ?? []), issue]);
+  }
+  for (const [path, issues] of byFile) {
+    const sorted = issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+    p.note(sorted.map(formatIssue).join("\n"), displayPath(path));
+  }
+
+  if (result.fixed.length > 0) {
+    p.log.success(
+      `Fixed ${result.fixed.length} issue${result.fixed.length === 1 ? "" : "s"}` +
+        (runId ? ` (revert with: sync-agents undo ${runId})` : "")
+    );
+  }
+
+  const fixable = result.issues.filter((issue) => issue.fixable).length;
+  const summary = `${result.checked} items checked: ${countBy(result.issues)}`;
+  if (fixable > 0) {
+    p.log.info(`${fixable} fixable with: sync-agents lint --fix`);
+  }
+  p.outro(
+    result.issues.length === 0
+      ? `${result.checked} items checked, no issues`
+      : summary
+  );
+  return failed ? 1 : 0;
+}
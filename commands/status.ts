@@ -0,0 +1,97 @@
+import * as p from "@clack/prompts";
+import {
+  ITEM_STATES,
+  status,
+  type NextAction,
+  type StatusOptions,
+  type StatusRow,
+} from "../status.ts";
+
+export interface StatusCommandOptions extends StatusOptions {
+  json: boolean;
+}
+
+const NEXT_LABELS: Record<NextAction, string> = {
+  none: "-",
+  "to-agents": "Claude → Agents",
+  "to-claude": "Agents → Claude",
+  "from-codex": "Codex → Agents",
+  cleanup: "remove from Codex",
+  prune: "prune from Agents",
+  conflict: "conflict",
+};
+
+// Widths of every column but the last
+const WIDTHS = [20, 5, 6, 6, 5, 6, 4, 8];
+
+function formatColumns(cells: string[]): string {
+  return `  ${cells.map((cell, i) => cell.padEnd(WIDTHS[i] ?? 0)).join(" ")}`;
+}
+
+const mark = (present: boolean) => (present ? "✓" : "-");
+
+function formatRow(row: StatusRow): string {
+  return formatColumns([
+    row.name,
+    row.kind,
+    mark(row.present.claude),
+    mark(row.present.agents),
+    mark(row.present.codex),
+    row.newer ?? "-",
+    row.equivalent === null ? "-" : row.equivalent ? "yes" : "no",
+    row.state,
+    NEXT_LABELS[row.next],
+  ]);
+}
+
+const HEADER = formatColumns([
+  "NAME",
+  "KIND",
+  "CLAUDE",
+  "AGENTS",
+  "CODEX",
+  "NEWER",
+  "SAME",
+  "STATE",
+  "NEXT",
+]);
+
+export async function statusCommand(
+  options: StatusCommandOptions
+): Promise<number> {
+  const unknown = (options.states ?? []).filter(
+    (state) => !ITEM_STATES.includes(state)
+  );
+  if (unknown.length > 0) {
+    p.log.error(
+      `Unknown state "${unknown[0]}" (expected ${ITEM_STATES.join(", ")})`
+    );
+    return 1;
+  }
+
+  const rows = await status(options);
+  if (options.json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return 0;
+  }
+  if (rows.length === 0) {
+    p.outro("Nothing matches");
+    return 0;
+  }
+
+  for (const scope of ["global", "project"] as const) {
+    const scoped = rows.filter((row) => row.scope === scope);
+    if (scoped.length === 0) continue;
+    p.note(
+      [HEADER, ...scoped.map(formatRow)].join("\n"),
+      scope === "global" ? "Global" : "Project"
+    );
+  }
+
+  const counts = ITEM_STATES.map(
+    (state) =>
+      [state, rows.filter((row) => row.state === state).length] as const
+  ).filter(([, count]) => count > 0);
+  p.outro(counts.map(([state, count]) => `${count} ${state}`).join(", "));
+  return 0;
+}
@@ -0,0 +1,183 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, isAbsolute, join, resolve } from "path";
+import {
+  DEFAULT_RULES,
+  validateRules,
+  type RewriteRule,
+} from "./adapters/rules.ts";
+import type { SyncDirections } from "./sync.ts";
+import { CONFLICT_POLICIES, type ConflictPolicy } from "./conflicts.ts";
+
+export interface SyncConfig {
+  claudeDir?: string;
+  agentsDir?: string;
+  codexDir?: string;
+  global?: boolean;
+  local?: boolean;
+  directions?: SyncDirections;
+  cleanup?: boolean;
+  prune?: boolean;
+  include?: string[];
+  exclude?: string[];
+  targets?: string[];
+  // Set to false to drop the built-in tool name rewrites
+  defaultRules?: boolean;
+  rules?: RewriteRule[];
+  // Ask how to resolve conflicts when running in a terminal
+  interactive?: boolean;
+  // Applied when not prompting (default: report conflicts)
+  conflictPolicy?: ConflictPolicy;
+  // Runs kept in the backup store for undo, 0 disables backups
+  keepBackups?: number;
+  // Symlink skills (and AGENTS.md with linkDocs) instead of copying
+  link?: boolean;
+  linkDocs?: boolean;
+  // Merge project docs edited under different headings on both sides
+  mergeDocs?: boolean;
+  // User-level instruction files synced in the global scope
+  globalClaudeDoc?: string;
+  globalAgentsDoc?: string;
+}
+
+export interface LoadedConfig {
+  config: SyncConfig;
+  sources: string[];
+}
+
+const CONFIG_NAMES = ["sync-agents.config.ts", "sync-agents.config.json"];
+const PATH_KEYS = [
+  "claudeDir",
+  "agentsDir",
+  "codexDir",
+  "globalClaudeDoc",
+  "globalAgentsDoc",
+] as const;
+
+export function globalConfigDir(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "sync-agents");
+}
+
+// Claude Code and Codex both let an environment variable move their home
+export function defaultClaudeDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || join(homedir(), ".claude");
+}
+
+export function defaultCodexDir(): string {
+  return join(process.env.CODEX_HOME || join(homedir(), ".codex"), "skills");
+}
+
+function findConfigIn(dir: string): string | null {
+  for (const name of CONFIG_NAMES) {
+    const path = join(dir, name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+// Walk up from cwd, stopping at the repository root
+function findProjectConfig(cwd: string): string | null {
+  let dir = resolve(cwd);
+  while (true) {
+    const found = findConfigIn(dir);
+    if (found) return found;
+    const parent = dirname(dir);
+    if (existsSync(join(dir, ".git")) || parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function expandPath(path: string, baseDir: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return isAbsolute(path) ? path : resolve(baseDir, path);
+}
+
+async function readConfigFile(path: string): Promise<SyncConfig> {
+  let config: unknown;
+  try {
+    if (path.endsWith(".ts")) {
+      const mod = await import(resolve(path));
+      config = mod.default ?? mod.config;
+    } else {
+      config = JSON.parse(await readFile(path, "utf-8"));
+    }
+  } catch (err) {
+    throw new Error(`Invalid config ${path}: ${String(err)}`);
+  }
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid config ${path}: expected an object`);
+  }
+
+  const resolved = { ...(config as SyncConfig) };
+  for (const key of PATH_KEYS) {
+    const value = resolved[key];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      throw new Error(`Invalid config ${path}: "${key}" must be a string`);
+    }
+    resolved[key] = expandPath(value, dirname(path));
+  }
+  if (resolved.rules) validateRules(resolved.rules);
+  if (
+    resolved.conflictPolicy !== undefined &&
+    !CONFLICT_POLICIES.includes(resolved.conflictPolicy)
+  ) {
+    throw new Error(
+      `Invalid config ${path}: "conflictPolicy" must be one of ${CONFLICT_POLICIES.join(", ")}`
+    );
+  }
+
+  return resolved;
+}
+
+// Later configs win; rules from every config are kept, in order
+export function mergeConfigs(...configs: SyncConfig[]): SyncConfig {
+  const merged: SyncConfig = {};
+  for (const config of configs) {
+    const { directions, rules, ...rest } = config;
+    Object.assign(merged, rest);
+    if (directions) merged.directions = { ...merged.directions, ...directions };
+    if (rules) merged.rules = [...(merged.rules ?? []), ...rules];
+  }
+  return merged;
+}
+
+/**
+ * Load the global config and the project config (or an explicit
+ * `configPath` in its place) and merge them.
+ */
+export async function loadConfig(
+  options: { cwd?: string; configPath?: string } = {}
+): Promise<LoadedConfig> {
+  const { cwd = process.cwd(), configPath } = options;
+
+  if (configPath && !existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configPath}`);
+  }
+
+  const candidates = [
+    findConfigIn(globalConfigDir()),
+    configPath ? resolve(configPath) : findProjectConfig(cwd),
+  ].filter((path): path is string => path !== null);
+  const sources = [...new Set(candidates)];
+
+  const configs: SyncConfig[] = [];
+  for (const path of sources) {
+    configs.push(await readConfigFile(path));
+  }
+
+  return { config: mergeConfigs(...configs), sources };
+}
+
+export function resolveRules(config: SyncConfig): RewriteRule[] {
+  const rules = [
+    ...(config.defaultRules === false ? [] : DEFAULT_RULES),
+    ...(config.rules ?? []),
+  ];
+  validateRules(rules);
+  return rules;
+}
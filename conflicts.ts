@@ -0,0 +1,133 @@
+import * as p from "@clack/prompts";
+import { existsSync } from "fs";
+import { readFile, stat } from "fs/promises";
+import { stripProvenanceHeader } from "./adapters/provenance.ts";
+import type { ItemKind } from "./adapters/types.ts";
+import { colorizeDiff, unifiedDiff } from "./diff.ts";
+
+export type ConflictChoice = "claude" | "target" | "skip";
+// "newest" keeps whichever side was modified last
+export type ConflictPolicy = ConflictChoice | "newest";
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = [
+  "claude",
+  "target",
+  "skip",
+  "newest",
+];
+
+export interface ConflictPrompt {
+  name: string;
+  kind: ItemKind | "doc" | "mcp";
+  // Adapter id for items, file name for docs
+  target: string;
+  // Main files of both sides, used for the diff and the editor
+  claudeFile: string;
+  targetFile: string;
+  // Both sides rendered in Claude's format, when they differ in layout
+  claudeContent?: string;
+  targetContent?: string;
+}
+
+export type ConflictResolver = (
+  conflict: ConflictPrompt
+) => Promise<ConflictChoice>;
+
+async function mtime(path: string): Promise<number> {
+  return existsSync(path) ? (await stat(path)).mtimeMs : 0;
+}
+
+export function policyResolver(policy: ConflictPolicy): ConflictResolver {
+  return async (conflict) => {
+    if (policy !== "newest") return policy;
+    const [claudeTime, targetTime] = await Promise.all([
+      mtime(conflict.claudeFile),
+      mtime(conflict.targetFile),
+    ]);
+    return targetTime > claudeTime ? "target" : "claude";
+  };
+}
+
+async function readSide(path: string): Promise<string> {
+  if (!existsSync(path)) return "";
+  return stripProvenanceHeader(await readFile(path, "utf-8"));
+}
+
+async function openInEditor(path: string): Promise<void> {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  const [command, ...editorArgs] = editor.split(/\s+/).filter(Boolean);
+  const proc = Bun.spawn([command!, ...editorArgs, path], {
+    stdio: ["inherit", "inherit", "inherit"],
+  });
+  await proc.exited;
+}
+
+interface InteractiveOptions {
+  // Called around prompts so spinners don't draw over them
+  onPause?: () => void;
+  onResume?: () => void;
+}
+
+/**
+ * Show a diff for each conflict and ask which side to keep. Choices made
+ * "for all" apply to every later conflict in the run.
+ */
+export function interactiveResolver(
+  options: InteractiveOptions = {}
+): ConflictResolver {
+  let remembered: ConflictChoice | null = null;
+
+  return async (conflict) => {
+    if (remembered) return remembered;
+    options.onPause?.();
+
+    try {
+      const diff = unifiedDiff(
+        conflict.claudeContent ?? (await readSide(conflict.claudeFile)),
+        conflict.targetContent ?? (await readSide(conflict.targetFile)),
+        { fromLabel: conflict.claudeFile, toLabel: conflict.targetFile }
+      );
+      const label =
+        conflict.kind === "doc"
+          ? conflict.name
+          : `${conflict.name} (${conflict.kind}, ${conflict.target})`;
+      p.note(
+        colorizeDiff(diff || "Only metadata differs"),
+        `Conflict: ${label}`
+      );
+
+      const choice = await p.select({
+        message: `Which version of ${conflict.name} should be kept?`,
+        options: [
+          { value: "claude", label: "Keep Claude" },
+          { value: "target", label: `Keep ${conflict.target}` },
+          {
+            value: "editor",
+            label: "Open in $EDITOR",
+            hint: "edit the Claude copy, then sync it",
+          },
+          { value: "skip", label: "Skip" },
+          { value: "claude-all", label: "Keep Claude for all" },
+          { value: "target-all", label: "Keep the other side for all" },
+          { value: "skip-all", label: "Skip all" },
+        ],
+      });
+
+      if (p.isCancel(choice)) {
+        remembered = "skip";
+        return "skip";
+      }
+      if (choice === "editor") {
+        await openInEditor(conflict.claudeFile);
+        return "claude";
+      }
+      if (choice.endsWith("-all")) {
+        remembered = choice.replace("-all", "") as ConflictChoice;
+        return remembered;
+      }
+      return choice as ConflictChoice;
+    } finally {
+      options.onResume?.();
+    }
+  };
+}
@@ -0,0 +1,122 @@
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+export interface DiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  // Unchanged lines shown around each change
+  context?: number;
+}
+
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const CYAN = "\x1b[36m";
+const BOLD = "\x1b[1m";
+const RESET = "\x1b[0m";
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Line diff over the longest common subsequence
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!) {
+      ops.push({ type: "-", line: a[i++]! });
+    } else {
+      ops.push({ type: "+", line: b[j++]! });
+    }
+  }
+  while (i < n) ops.push({ type: "-", line: a[i++]! });
+  while (j < m) ops.push({ type: "+", line: b[j++]! });
+  return ops;
+}
+
+/**
+ * Unified diff of two texts, or an empty string when they are equal.
+ */
+export function unifiedDiff(
+  from: string,
+  to: string,
+  options: DiffOptions = {}
+): string {
+  const { fromLabel = "a", toLabel = "b", context = 3 } = options;
+  const ops = diffLines(splitLines(from), splitLines(to));
+  if (ops.every((op) => op.type === " ")) return "";
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let index = 0;
+
+  while (index < ops.length) {
+    // Find the next change and the run of changes close enough to share a hunk
+    while (index < ops.length && ops[index]!.type === " ") index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end]!.type !== " ") lastChange = end;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    let fromLine = 1;
+    let toLine = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== "+") fromLine++;
+      if (op.type !== "-") toLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const fromCount = hunk.filter((op) => op.type !== "+").length;
+    const toCount = hunk.filter((op) => op.type !== "-").length;
+
+    lines.push(
+      `@@ -${fromCount ? fromLine : fromLine - 1},${fromCount} +${
+        toCount ? toLine : toLine - 1
+      },${toCount} @@`
+    );
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+    index = end;
+  }
+
+  return lines.join("\n");
+}
+
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("---") || line.startsWith("+++")) {
+        return `${BOLD}${line}${RESET}`;
+      }
+      if (line.startsWith("@@")) return `${CYAN}${line}${RESET}`;
+      if (line.startsWith("-")) return `${RED}${line}${RESET}`;
+      if (line.startsWith("+")) return `${GREEN}${line}${RESET}`;
+      return line;
+    })
+    .join("\n");
+}
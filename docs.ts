@@ -0,0 +1,640 @@
+import { existsSync, statSync } from "fs";
+import { mkdir, readFile, readlink, rm, symlink } from "fs/promises";
+import { homedir } from "os";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "path";
+import { backupPath } from "./backup.ts";
+import type { ConflictResolver } from "./conflicts.ts";
+import { resolveAdapters } from "./adapters/index.ts";
+import {
+  defaultManifestPath,
+  detectChange,
+  hashContent,
+  loadManifest,
+  saveManifest,
+  type DocEntry,
+  type Manifest,
+} from "./manifest.ts";
+import { mergeSections, sectionHashes } from "./merge.ts";
+import { recordDelete, recordWrite } from "./preview.ts";
+import {
+  findProjectRoot,
+  planScopes,
+  projectManifestPath,
+  type SyncConflict,
+  type SyncedDoc,
+  type SyncOptions,
+} from "./sync.ts";
+
+const DOC_NAMES = new Set(["CLAUDE.md", "AGENTS.md"]);
+// Claude Code stops following imports after this many hops
+const MAX_IMPORT_DEPTH = 5;
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const STANDALONE_IMPORT_RE = /^\s*@(\S+)\s*$/;
+const INLINE_IMPORT_RE = /(^|\s)@((?:~\/|\.{1,2}\/|\/)?[\w.-]+(?:\/[\w.-]+)*)/g;
+const IMPORT_BLOCK_RE = /^<!-- @(\S+) -->\n[\s\S]*?^<!-- \/@\1 -->$/gm;
+const IMPORT_LINK_RE = /\[@([^\]\s]+)\]\([^)]*\)/g;
+
+/**
+ * Directories holding a CLAUDE.md or AGENTS.md, found through git so
+ * .gitignore is respected. Outside a repository only the root is used.
+ */
+export async function findDocDirs(root: string): Promise<string[]> {
+  const result =
+    await Bun.$`git ls-files -z --cached --others --exclude-standard`
+      .cwd(root)
+      .quiet()
+      .nothrow();
+  if (result.exitCode !== 0) return [root];
+
+  const dirs = new Set([root]);
+  for (const file of result.stdout.toString().split("\0")) {
+    if (DOC_NAMES.has(basename(file))) dirs.add(dirname(join(root, file)));
+  }
+  return [...dirs].sort();
+}
+
+function resolveImport(path: string, fromFile: string): string {
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return isAbsolute(path) ? path : resolve(dirname(fromFile), path);
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+// Outside inline code spans only
+function replaceOutsideCode(
+  line: string,
+  replace: (text: string) => string
+): string {
+  return line
+    .split("`")
+    .map((part, index) => (index % 2 === 0 ? replace(part) : part))
+    .join("`");
+}
+
+async function expand(
+  content: string,
+  file: string,
+  docDir: string,
+  stack: string[]
+): Promise<string> {
+  const link = (path: string, resolved: string) =>
+    `[@${path}](${relative(docDir, resolved).split("\\").join("/")})`;
+
+  const lines: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split("\n")) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    if (inFence) {
+      lines.push(line);
+      continue;
+    }
+
+    const standalone = line.match(STANDALONE_IMPORT_RE);
+    if (standalone) {
+      const path = standalone[1]!;
+      const resolved = resolveImport(path, file);
+      if (isFile(resolved)) {
+        // Cycles and overly deep chains are referenced instead of inlined
+        if (stack.includes(resolved) || stack.length > MAX_IMPORT_DEPTH) {
+          lines.push(link(path, resolved));
+        } else {
+          const imported = await readFile(resolved, "utf-8");
+          const body = await expand(imported, resolved, docDir, [
+            ...stack,
+            resolved,
+          ]);
+          lines.push(`<!-- @${path} -->`, body.trimEnd(), `<!-- /@${path} -->`);
+        }
+        continue;
+      }
+    }
+
+    lines.push(
+      replaceOutsideCode(line, (text) =>
+        text.replace(INLINE_IMPORT_RE, (match, lead: string, path: string) => {
+          const resolved = resolveImport(path, file);
+          return isFile(resolved) ? `${lead}${link(path, resolved)}` : match;
+        })
+      )
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a CLAUDE.md for tools without import support: `@path` lines are
+ * inlined between markers, imports inside a sentence become links.
+ */
+export function expandImports(content: string, file: string): Promise<string> {
+  return expand(content, file, dirname(file), [file]);
+}
+
+/**
+ * Undo expandImports so imported content is never flattened into Claude.
+ */
+export function collapseImports(content: string): string {
+  return content
+    .replace(IMPORT_BLOCK_RE, (_block, path: string) => `@${path}`)
+    .replace(IMPORT_LINK_RE, (_link, path: string) => `@${path}`);
+}
+
+/**
+ * Imports whose inlined block no longer matches the imported file, i.e.
+ * edits made in AGENTS.md that collapseImports would drop.
+ */
+async function editedImports(content: string, file: string): Promise<string[]> {
+  const edited: string[] = [];
+  for (const [block, path] of content.matchAll(IMPORT_BLOCK_RE)) {
+    const body = block
+      .slice(`<!-- @${path} -->\n`.length)
+      .slice(0, -`\n<!-- /@${path} -->`.length);
+    const resolved = resolveImport(path!, file);
+    const expected = isFile(resolved)
+      ? await expand(
+          await readFile(resolved, "utf-8"),
+          resolved,
+          dirname(file),
+          [file, resolved]
+        )
+      : null;
+    if (expected?.trimEnd() !== body) edited.push(path!);
+  }
+  return edited;
+}
+
+export interface DocSyncResult {
+  docs: SyncedDoc[];
+  conflicts: SyncConflict[];
+}
+
+interface DocContext {
+  root: string;
+  dryRun: boolean;
+  manifest: Manifest;
+  mergeDocs: boolean;
+  resolveConflict?: ConflictResolver;
+  // What each written doc now holds, so dry runs see their own writes
+  written: Map<string, string>;
+  result: DocSyncResult;
+}
+
+async function readDoc(ctx: DocContext, path: string): Promise<string | null> {
+  const pending = ctx.written.get(path);
+  if (pending !== undefined) return pending;
+  return existsSync(path) ? readFile(path, "utf-8") : null;
+}
+
+async function writeDoc(
+  ctx: DocContext,
+  path: string,
+  content: string
+): Promise<void> {
+  ctx.written.set(path, content);
+  recordWrite(path, content);
+  if (ctx.dryRun) return;
+  await backupPath(path);
+  await mkdir(dirname(path), { recursive: true });
+  // A linked AGENTS.md would otherwise be written through into CLAUDE.md
+  await rm(path, { force: true });
+  await Bun.write(path, content);
+}
+
+function pushDoc(
+  ctx: DocContext,
+  sourcePath: string,
+  outputPath: string,
+  action: SyncedDoc["action"]
+): void {
+  ctx.result.docs.push({
+    name: relative(ctx.root, outputPath),
+    sourcePath,
+    outputPath,
+    action,
+  });
+}
+
+function pushConflict(
+  ctx: DocContext,
+  claudePath: string,
+  targetPath: string
+): void {
+  ctx.result.conflicts.push({
+    name: relative(ctx.root, targetPath),
+    kind: "doc",
+    target: basename(targetPath),
+    reason: "both-changed",
+    claudePath,
+    targetPath,
+  });
+}
+
+function docEntries(ctx: DocContext): Record<string, DocEntry> {
+  ctx.manifest.docs ??= {};
+  return ctx.manifest.docs;
+}
+
+function recordDoc(
+  ctx: DocContext,
+  targetPath: string,
+  claudeContent: string,
+  targetContent: string
+): void {
+  docEntries(ctx)[relative(ctx.root, targetPath)] = {
+    claudeHash: hashContent(claudeContent),
+    targetHash: hashContent(targetContent),
+    sections: sectionHashes(claudeContent),
+    syncedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sync one CLAUDE.md with its instruction file. The side that changed since
+ * the last sync wins; when both did, the headings are merged (with
+ * mergeDocs), the resolver decides, or the pair is reported as a conflict.
+ */
+async function syncDocPair(
+  ctx: DocContext,
+  claudePath: string,
+  agentsPath: string
+): Promise<void> {
+  const claude = await readDoc(ctx, claudePath);
+  const agents = await readDoc(ctx, agentsPath);
+
+  if (claude === null && agents === null) return;
+
+  if (agents === null) {
+    const output = await expandImports(claude!, claudePath);
+    await writeDoc(ctx, agentsPath, output);
+    pushDoc(ctx, claudePath, agentsPath, "created");
+    recordDoc(ctx, agentsPath, claude!, output);
+    return;
+  }
+
+  // Edits inside inlined imports have no place in CLAUDE.md, so AGENTS.md
+  // never wins while it has any. Blocks of an AGENTS.md left as it was
+  // synced only differ because the imported files changed.
+  const base = docEntries(ctx)[relative(ctx.root, agentsPath)];
+  const edited =
+    base?.targetHash === hashContent(agents)
+      ? []
+      : await editedImports(agents, claudePath);
+
+  if (claude === null) {
+    if (edited.length > 0) {
+      pushConflict(ctx, claudePath, agentsPath);
+      return;
+    }
+    const output = collapseImports(agents);
+    await writeDoc(ctx, claudePath, output);
+    pushDoc(ctx, agentsPath, claudePath, "created");
+    recordDoc(ctx, agentsPath, output, agents);
+    return;
+  }
+
+  const expected = await expandImports(claude, claudePath);
+  if (agents === expected) {
+    if (base?.targetHash !== hashContent(agents)) {
+      recordDoc(ctx, agentsPath, claude, agents);
+    }
+    return;
+  }
+
+  let change = detectChange(base, hashContent(claude), hashContent(agents));
+  if (collapseImports(agents) === claude) {
+    // Only imported content differs: the imported files changed since
+    // AGENTS.md was generated, or AGENTS.md was edited inside an import
+    change = edited.length > 0 ? "both" : "claude";
+  } else if (!base || change === "none") {
+    // Nothing to tell which side is newer
+    change = "both";
+  }
+
+  if (change === "both" && ctx.mergeDocs && edited.length === 0) {
+    const merged = mergeSections(
+      claude,
+      collapseImports(agents),
+      base?.sections ?? {}
+    );
+    if (merged !== null) {
+      const output = await expandImports(merged, claudePath);
+      if (merged !== claude) {
+        await writeDoc(ctx, claudePath, merged);
+        pushDoc(ctx, agentsPath, claudePath, "merged");
+      }
+      if (output !== agents) {
+        await writeDoc(ctx, agentsPath, output);
+        pushDoc(ctx, claudePath, agentsPath, "merged");
+      }
+      recordDoc(ctx, agentsPath, merged, output);
+      return;
+    }
+  }
+
+  if (change === "both") {
+    if (!ctx.resolveConflict) {
+      pushConflict(ctx, claudePath, agentsPath);
+      return;
+    }
+    const choice = await ctx.resolveConflict({
+      name: relative(ctx.root, agentsPath),
+      kind: "doc",
+      target: basename(agentsPath),
+      claudeFile: claudePath,
+      targetFile: agentsPath,
+      claudeContent: claude,
+      targetContent: collapseImports(agents),
+    });
+    if (choice === "skip") return;
+    change = choice;
+  }
+
+  if (change === "claude") {
+    // Read again, the resolver may have opened it in an editor
+    const content = await readFile(claudePath, "utf-8");
+    const output = await expandImports(content, claudePath);
+    await writeDoc(ctx, agentsPath, output);
+    pushDoc(ctx, claudePath, agentsPath, "updated");
+    recordDoc(ctx, agentsPath, content, output);
+  } else if (edited.length > 0) {
+    pushConflict(ctx, claudePath, agentsPath);
+  } else {
+    const output = collapseImports(agents);
+    await writeDoc(ctx, claudePath, output);
+    pushDoc(ctx, agentsPath, claudePath, "updated");
+    recordDoc(ctx, agentsPath, output, agents);
+  }
+}
+
+async function renderOverride(
+  claudePath: string,
+  claude: string | null,
+  localPath: string,
+  local: string
+): Promise<string> {
+  const personal = await expandImports(local, localPath);
+  if (!claude) return personal;
+  const shared = await expandImports(claude, claudePath);
+  return `${shared.trimEnd()}\n\n<!-- CLAUDE.local.md -->\n${personal}`;
+}
+
+/**
+ * CLAUDE.local.md adds to CLAUDE.md while AGENTS.override.md replaces
+ * AGENTS.md, so the override is generated from both and never copied back.
+ * An override that sync-agents didn't write is only replaced through the
+ * resolver.
+ */
+async function syncOverrideDoc(
+  ctx: DocContext,
+  dir: string,
+  overridePath: string
+): Promise<void> {
+  const claudePath = join(dir, "CLAUDE.md");
+  const localPath = join(dir, "CLAUDE.local.md");
+  const key = relative(ctx.root, overridePath);
+  const base = docEntries(ctx)[key];
+  const current = await readDoc(ctx, overridePath);
+  const generated =
+    current !== null && base?.targetHash === hashContent(current);
+
+  const local = await readDoc(ctx, localPath);
+  if (local === null) {
+    // Drop an override we generated once CLAUDE.local.md is gone
+    if (generated) {
+      recordDelete(overridePath);
+      if (!ctx.dryRun) {
+        await backupPath(overridePath);
+        await rm(overridePath, { force: true });
+      }
+      pushDoc(ctx, localPath, overridePath, "removed");
+    }
+    if (base) delete docEntries(ctx)[key];
+    return;
+  }
+
+  const render = async () =>
+    renderOverride(
+      claudePath,
+      await readDoc(ctx, claudePath),
+      localPath,
+      (await readDoc(ctx, localPath)) ?? ""
+    );
+  let output = await render();
+  if (current === output) {
+    if (base?.targetHash !== hashContent(output)) {
+      recordDoc(ctx, overridePath, local, output);
+    }
+    return;
+  }
+
+  if (current !== null && !generated) {
+    if (!ctx.resolveConflict) {
+      pushConflict(ctx, localPath, overridePath);
+      return;
+    }
+    const choice = await ctx.resolveConflict({
+      name: key,
+      kind: "doc",
+      target: basename(overridePath),
+      claudeFile: localPath,
+      targetFile: overridePath,
+      claudeContent: output,
+      targetContent: current,
+    });
+    if (choice !== "claude") return;
+    // The resolver may have opened CLAUDE.local.md in an editor
+    output = await render();
+  }
+
+  await writeDoc(ctx, overridePath, output);
+  pushDoc(
+    ctx,
+    localPath,
+    overridePath,
+    current === null ? "created" : "updated"
+  );
+  recordDoc(ctx, overridePath, local, output);
+}
+
+// Bring both docs in line, then replace the instruction file with a link
+async function linkDocPair(
+  ctx: DocContext,
+  claudePath: string,
+  agentsPath: string
+): Promise<void> {
+  const linkTarget = relative(dirname(agentsPath), claudePath);
+  const current = await readlink(agentsPath).catch(() => null);
+  if (current === linkTarget) return;
+
+  const conflicts = ctx.result.conflicts.length;
+  await syncDocPair(ctx, claudePath, agentsPath);
+  const claude = await readDoc(ctx, claudePath);
+  // Skipped and unresolved conflicts leave the two files different
+  const agents = await readDoc(ctx, agentsPath);
+  if (claude === null || agents !== claude) return;
+  if (ctx.result.conflicts.length > conflicts) return;
+
+  if (!ctx.dryRun) {
+    await backupPath(agentsPath);
+    await rm(agentsPath, { force: true });
+    await symlink(linkTarget, agentsPath);
+  }
+
+  ctx.result.docs = ctx.result.docs.filter(
+    (doc) => doc.outputPath !== agentsPath
+  );
+  pushDoc(ctx, claudePath, agentsPath, "linked");
+}
+
+/**
+ * One-way copy of the project CLAUDE.md into another tool's instruction
+ * file. A file that sync-agents didn't write, or that was edited since, is
+ * only replaced through the resolver.
+ */
+async function syncDocToTarget(
+  ctx: DocContext,
+  claudePath: string,
+  claudeContent: string,
+  destPath: string
+): Promise<void> {
+  const base = docEntries(ctx)[relative(ctx.root, destPath)];
+  let content = claudeContent;
+  let output = await expandImports(content, claudePath);
+  const current = await readDoc(ctx, destPath);
+  if (current === output) {
+    if (base?.targetHash !== hashContent(output)) {
+      recordDoc(ctx, destPath, content, output);
+    }
+    return;
+  }
+
+  if (current !== null && base?.targetHash !== hashContent(current)) {
+    if (!ctx.resolveConflict) {
+      pushConflict(ctx, claudePath, destPath);
+      return;
+    }
+    const choice = await ctx.resolveConflict({
+      name: relative(ctx.root, destPath),
+      kind: "doc",
+      target: basename(destPath),
+      claudeFile: claudePath,
+      targetFile: destPath,
+      claudeContent: output,
+      targetContent: current,
+    });
+    if (choice !== "claude") return;
+    // The resolver may have opened CLAUDE.md in an editor
+    content = await readFile(claudePath, "utf-8");
+    output = await expandImports(content, claudePath);
+  }
+
+  await writeDoc(ctx, destPath, output);
+  pushDoc(ctx, claudePath, destPath, current === null ? "created" : "updated");
+  recordDoc(ctx, destPath, content, output);
+}
+
+/**
+ * Sync every CLAUDE.md in the project with its AGENTS.md, and the root
+ * CLAUDE.md with the instruction files of the other selected targets.
+ * Last synced hashes live in the project manifest.
+ */
+export async function syncDocs(options: SyncOptions): Promise<DocSyncResult> {
+  const { dryRun, cwd = process.cwd(), targets, linkDocs = false } = options;
+  const root = options.projectRoot ?? (await findProjectRoot(cwd));
+  const manifestPath = projectManifestPath(options.agentsSkillsDir, root);
+  const manifest = await loadManifest(manifestPath);
+  const before = JSON.stringify(manifest.docs ?? {});
+  const adapters = resolveAdapters(targets).filter(
+    (adapter) => adapter.docPath && adapter.capabilities.docs
+  );
+  const ctx: DocContext = {
+    root,
+    dryRun,
+    manifest,
+    mergeDocs: options.mergeDocs ?? false,
+    resolveConflict: options.resolveConflict,
+    written: new Map(),
+    result: { docs: [], conflicts: [] },
+  };
+
+  const syncDoc = linkDocs ? linkDocPair : syncDocPair;
+  for (const dir of await findDocDirs(root)) {
+    for (const adapter of adapters) {
+      if (adapter.capabilities.docs !== "bidirectional") continue;
+      await syncDoc(ctx, join(dir, "CLAUDE.md"), adapter.docPath!(dir));
+      if (adapter.overrideDocPath) {
+        await syncOverrideDoc(ctx, dir, adapter.overrideDocPath(dir));
+      }
+    }
+  }
+
+  const claudePath = join(root, "CLAUDE.md");
+  const claudeContent = await readDoc(ctx, claudePath);
+  if (claudeContent !== null) {
+    for (const adapter of adapters) {
+      if (adapter.capabilities.docs !== "to-target") continue;
+      await syncDocToTarget(
+        ctx,
+        claudePath,
+        claudeContent,
+        adapter.docPath!(root)
+      );
+    }
+  }
+
+  if (!dryRun && JSON.stringify(manifest.docs ?? {}) !== before) {
+    await saveManifest(manifestPath, manifest);
+  }
+  return ctx.result;
+}
+
+/**
+ * Sync the user-level CLAUDE.md with the global instruction files of the
+ * selected targets (~/.codex/AGENTS.md), the same way as a project pair.
+ * Last synced hashes live in the global manifest.
+ */
+export async function syncGlobalDocs(
+  options: SyncOptions
+): Promise<DocSyncResult> {
+  const {
+    claudeDir,
+    dryRun,
+    linkDocs = false,
+    manifestPath = defaultManifestPath(options.agentsSkillsDir),
+  } = options;
+  const result: DocSyncResult = { docs: [], conflicts: [] };
+  const run = (await planScopes(options)).find(
+    (scoped) => scoped.ctx.scope === "global"
+  );
+  if (!run) return result;
+
+  const manifest = await loadManifest(manifestPath);
+  const before = JSON.stringify(manifest.docs ?? {});
+  const ctx: DocContext = {
+    root: run.ctx.root,
+    dryRun,
+    manifest,
+    mergeDocs: options.mergeDocs ?? false,
+    resolveConflict: options.resolveConflict,
+    written: new Map(),
+    result,
+  };
+
+  const claudePath = options.globalClaudeDoc ?? join(claudeDir, "CLAUDE.md");
+  const syncDoc = linkDocs ? linkDocPair : syncDocPair;
+  for (const adapter of run.adapters) {
+    if (!adapter.globalDocPath) continue;
+    const agentsPath =
+      options.globalAgentsDoc ?? adapter.globalDocPath(run.ctx);
+    await syncDoc(ctx, claudePath, agentsPath);
+  }
+
+  if (!dryRun && JSON.stringify(manifest.docs ?? {}) !== before) {
+    await saveManifest(manifestPath, manifest);
+  }
+  return result;
+}
@@ -0,0 +1,437 @@
+import matter from "gray-matter";
+import { existsSync } from "fs";
+import { mkdir, mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join, resolve } from "path";
+import { backupPath } from "./backup.ts";
+import { copyTree } from "./adapters/copy.ts";
+import { NAME_RE } from "./lint.ts";
+import { hashPath } from "./manifest.ts";
+import {
+  findProjectRoot,
+  planScopes,
+  syncItem,
+  type ScopeResult,
+  type ScopeRun,
+  type SyncOptions,
+} from "./sync.ts";
+
+export interface LockEntry {
+  // Repository URL or local path, as given to `add`
+  source: string;
+  // Branch, tag or commit asked for; the default branch when missing
+  ref?: string;
+  commit: string;
+  // Skill directory inside the repository, "." for the root
+  path: string;
+  // Hash of the installed directory, to spot local edits
+  hash: string;
+  installedAt: string;
+}
+
+export interface Lockfile {
+  version: 1;
+  skills: Record<string, LockEntry>;
+}
+
+export interface InstalledSkill {
+  name: string;
+  source: string;
+  commit?: string;
+  action: "installed" | "updated" | "unchanged" | "removed" | "skipped";
+  // Why a skill was skipped
+  reason?: string;
+}
+
+export interface InstallResult {
+  skills: InstalledSkill[];
+  // Sync of the touched skills into the targets
+  synced: ScopeResult[];
+}
+
+export interface InstallOptions extends SyncOptions {
+  // Install into the project .claude instead of the global one
+  project?: boolean;
+  // Skills to pick from the repository (default: all)
+  skills?: string[];
+  // Replace skills that weren't installed from this source or were edited
+  force?: boolean;
+}
+
+export interface InstalledStatus extends LockEntry {
+  name: string;
+  status: "ok" | "modified" | "missing";
+}
+
+const LOCKFILE = "sync-agents.lock.json";
+
+export async function installScope(options: InstallOptions): Promise<ScopeRun> {
+  if (options.project) {
+    const root =
+      options.projectRoot ??
+      (await findProjectRoot(options.cwd ?? process.cwd()));
+    await mkdir(join(root, ".claude", "skills"), { recursive: true });
+  }
+  const runs = await planScopes({
+    ...options,
+    syncGlobal: !options.project,
+    syncLocal: Boolean(options.project),
+  });
+  const run = runs[0];
+  if (!run) throw new Error("Nothing to install into");
+  return run;
+}
+
+export function lockfilePath(claudeDir: string): string {
+  return join(claudeDir, LOCKFILE);
+}
+
+export async function loadLockfile(path: string): Promise<Lockfile> {
+  if (!existsSync(path)) return { version: 1, skills: {} };
+  const parsed = JSON.parse(await readFile(path, "utf-8")) as Lockfile;
+  return { version: 1, skills: parsed.skills ?? {} };
+}
+
+async function saveLockfile(path: string, lockfile: Lockfile): Promise<void> {
+  await backupPath(path);
+  await Bun.write(path, JSON.stringify(lockfile, null, 2) + "\n");
+}
+
+/**
+ * Split `<url|path>[#ref]`. Local paths are made absolute so the lockfile
+ * works from any directory.
+ */
+export function parseSource(
+  spec: string,
+  cwd: string
+): { source: string; ref?: string } {
+  const hash = spec.lastIndexOf("#");
+  const location = hash === -1 ? spec : spec.slice(0, hash);
+  const ref = hash === -1 ? undefined : spec.slice(hash + 1) || undefined;
+  const isLocal =
+    !/^[\w+.-]+:\/\//.test(location) && !/^[\w.-]+@/.test(location);
+  return {
+    source: isLocal ? resolve(cwd, location) : location,
+    ref,
+  };
+}
+
+async function git(args: string[], cwd = process.cwd()): Promise<string> {
+  const result = await Bun.$`git ${args}`.cwd(cwd).quiet().nothrow();
+  if (result.exitCode !== 0) {
+    const output = result.stderr.toString().trim();
+    throw new Error(`git ${args[0]} failed: ${output}`);
+  }
+  return result.stdout.toString().trim();
+}
+
+interface Checkout {
+  dir: string;
+  commit: string;
+}
+
+// A full clone, so any branch, tag or commit can be checked out
+async function checkout(source: string, ref?: string): Promise<Checkout> {
+  const dir = await mkdtemp(join(tmpdir(), "sync-agents-"));
+  try {
+    await git(["clone", "--quiet", source, dir]);
+    if (ref) await git(["checkout", "--quiet", ref], dir);
+    return { dir, commit: await git(["rev-parse", "HEAD"], dir) };
+  } catch (err) {
+    await rm(dir, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+/**
+ * Every directory with a SKILL.md, named by its frontmatter or its
+ * directory. A SKILL.md at the root is named after the repository. Names
+ * that aren't plain lowercase-and-hyphen names fall back to the directory.
+ */
+async function findSkills(
+  dir: string,
+  source: string
+): Promise<Map<string, string>> {
+  const skills = new Map<string, string>();
+  const glob = new Bun.Glob("**/SKILL.md");
+  for await (const file of glob.scan({ cwd: dir })) {
+    if (file.split("/").some((part) => part === "node_modules")) continue;
+    const path = dirname(file);
+    const { data } = matter(await readFile(join(dir, file), "utf-8"));
+    const fallback =
+      path === "." ? basename(source).replace(/\.git$/, "") : basename(path);
+    const name =
+      typeof data.name === "string" && NAME_RE.test(data.name)
+        ? data.name
+        : fallback;
+    if (!skills.has(name)) skills.set(name, path);
+  }
+  return skills;
+}
+
+// Names end up in paths, so they must stay a single folder in skills/
+function skillDir(claudeDir: string, name: string): string {
+  const skillsDir = resolve(claudeDir, "skills");
+  const dir = resolve(skillsDir, name);
+  if (dirname(dir) !== skillsDir) {
+    throw new Error(`Invalid skill name "${name}"`);
+  }
+  return dir;
+}
+
+async function copySkill(
+  repoDir: string,
+  path: string,
+  outDir: string
+): Promise<void> {
+  await backupPath(outDir);
+  await rm(outDir, { recursive: true, force: true });
+  await copyTree(join(repoDir, path), outDir, {
+    mapPath: (file) => (file.split("/")[0] === ".git" ? null : file),
+  });
+}
+
+async function syncInstalled(
+  run: ScopeRun,
+  names: string[],
+  options: SyncOptions
+): Promise<ScopeResult[]> {
+  const synced: ScopeResult[] = [];
+  for (const name of names) {
+    synced.push(await syncItem(run, name, options));
+  }
+  return synced;
+}
+
+/**
+ * Install skills from a git repository into .claude/skills, record them in
+ * the lockfile and sync them to the targets like any other skill.
+ */
+export async function addSkills(
+  spec: string,
+  options: InstallOptions
+): Promise<InstallResult> {
+  const run = await installScope(options);
+  const { claudeDir } = run.ctx;
+  const lockPath = lockfilePath(claudeDir);
+  const lockfile = await loadLockfile(lockPath);
+  const { source, ref } = parseSource(spec, options.cwd ?? process.cwd());
+
+  const repo = await checkout(source, ref);
+  const result: InstallResult = { skills: [], synced: [] };
+  try {
+    const found = await findSkills(repo.dir, source);
+    if (found.size === 0) throw new Error(`No skills found in ${source}`);
+    const wanted = options.skills ?? [...found.keys()];
+    const missing = wanted.filter((name) => !found.has(name));
+    if (missing.length > 0) {
+      throw new Error(
+        `Not found in ${source}: ${missing.join(", ")}. Available: ${[...found.keys()].join(", ")}`
+      );
+    }
+
+    for (const name of wanted) {
+      const outDir = skillDir(claudeDir, name);
+      const locked = lockfile.skills[name];
+      if (existsSync(outDir) && locked?.source !== source && !options.force) {
+        result.skills.push({
+          name,
+          source,
+          action: "skipped",
+          reason: locked
+            ? `installed from ${locked.source}`
+            : "a skill with this name already exists",
+        });
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await copySkill(repo.dir, found.get(name)!, outDir);
+        lockfile.skills[name] = {
+          source,
+          ref,
+          commit: repo.commit,
+          path: found.get(name)!,
+          hash: (await hashPath(outDir))!,
+          installedAt: new Date().toISOString(),
+        };
+      }
+      result.skills.push({
+        name,
+        source,
+        commit: repo.commit,
+        action: locked ? "updated" : "installed",
+      });
+    }
+  } finally {
+    await rm(repo.dir, { recursive: true, force: true });
+  }
+
+  const touched = result.skills
+    .filter((skill) => skill.action !== "skipped")
+    .map((skill) => skill.name);
+  if (!options.dryRun && touched.length > 0) {
+    await saveLockfile(lockPath, lockfile);
+    result.synced = await syncInstalled(run, touched, options);
+  }
+  return result;
+}
+
+/**
+ * Fetch the locked sources again and bring their skills up to the latest
+ * commit of the recorded ref. Skills edited since they were installed are
+ * left alone unless `force` is set.
+ */
+export async function updateSkills(
+  names: string[],
+  options: InstallOptions
+): Promise<InstallResult> {
+  const run = await installScope(options);
+  const { claudeDir } = run.ctx;
+  const lockPath = lockfilePath(claudeDir);
+  const lockfile = await loadLockfile(lockPath);
+  const result: InstallResult = { skills: [], synced: [] };
+
+  const selected = names.length > 0 ? names : Object.keys(lockfile.skills);
+  const unknown = selected.filter((name) => !lockfile.skills[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Not installed with add: ${unknown.join(", ")}`);
+  }
+
+  // One checkout per source and ref
+  const groups = new Map<string, string[]>();
+  for (const name of selected) {
+    const { source, ref } = lockfile.skills[name]!;
+    const key = `${source}#${ref ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), name]);
+  }
+
+  for (const group of groups.values()) {
+    const { source, ref } = lockfile.skills[group[0]!]!;
+    const repo = await checkout(source, ref);
+    try {
+      const found = await findSkills(repo.dir, source);
+      for (const name of group) {
+        const entry = lockfile.skills[name]!;
+        const outDir = skillDir(claudeDir, name);
+        const path = found.get(name);
+        if (!path) {
+          result.skills.push({
+            name,
+            source,
+            action: "skipped",
+            reason: `no longer in ${source}`,
+          });
+          continue;
+        }
+        if (repo.commit === entry.commit && existsSync(outDir)) {
+          result.skills.push({
+            name,
+            source,
+            commit: entry.commit,
+            action: "unchanged",
+          });
+          continue;
+        }
+        if ((await hashPath(outDir)) !== entry.hash && existsSync(outDir)) {
+          if (!options.force) {
+            result.skills.push({
+              name,
+              source,
+              action: "skipped",
+              reason: "edited since it was installed (use --force)",
+            });
+            continue;
+          }
+        }
+
+        if (!options.dryRun) {
+          await copySkill(repo.dir, path, outDir);
+          lockfile.skills[name] = {
+            ...entry,
+            commit: repo.commit,
+            path,
+            hash: (await hashPath(outDir))!,
+            installedAt: new Date().toISOString(),
+          };
+        }
+        result.skills.push({
+          name,
+          source,
+          commit: repo.commit,
+          action: "updated",
+        });
+      }
+    } finally {
+      await rm(repo.dir, { recursive: true, force: true });
+    }
+  }
+
+  const touched = result.skills
+    .filter((skill) => skill.action === "updated")
+    .map((skill) => skill.name);
+  if (!options.dryRun && touched.length > 0) {
+    await saveLockfile(lockPath, lockfile);
+    result.synced = await syncInstalled(run, touched, options);
+  }
+  return result;
+}
+
+/**
+ * Delete installed skills and their lock entries. The generated copies in
+ * the targets are pruned, unless they were edited there.
+ */
+export async function removeSkills(
+  names: string[],
+  options: InstallOptions
+): Promise<InstallResult> {
+  const run = await installScope(options);
+  const { claudeDir } = run.ctx;
+  const lockPath = lockfilePath(claudeDir);
+  const lockfile = await loadLockfile(lockPath);
+  const result: InstallResult = { skills: [], synced: [] };
+
+  const unknown = names.filter((name) => !lockfile.skills[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Not installed with add: ${unknown.join(", ")}`);
+  }
+
+  for (const name of names) {
+    const { source } = lockfile.skills[name]!;
+    if (!options.dryRun) {
+      const outDir = skillDir(claudeDir, name);
+      await backupPath(outDir);
+      await rm(outDir, { recursive: true, force: true });
+      delete lockfile.skills[name];
+    }
+    result.skills.push({ name, source, action: "removed" });
+  }
+
+  if (!options.dryRun && names.length > 0) {
+    await saveLockfile(lockPath, lockfile);
+    result.synced = await syncInstalled(run, names, {
+      ...options,
+      prune: true,
+    });
+  }
+  return result;
+}
+
+export async function listSkills(
+  options: InstallOptions
+): Promise<InstalledStatus[]> {
+  const run = await installScope(options);
+  const { claudeDir } = run.ctx;
+  const lockfile = await loadLockfile(lockfilePath(claudeDir));
+
+  const installed: InstalledStatus[] = [];
+  for (const [name, entry] of Object.entries(lockfile.skills)) {
+    const hash = await hashPath(skillDir(claudeDir, name));
+    installed.push({
+      name,
+      ...entry,
+      status: !hash ? "missing" : hash === entry.hash ? "ok" : "modified",
+    });
+  }
+  return installed.sort((a, b) => a.name.localeCompare(b.name));
+}
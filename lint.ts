@@ -0,0 +1,426 @@
+import matter from "gray-matter";
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { backupPath } from "./backup.ts";
+import { listTree } from "./adapters/copy.ts";
+import { discoverAgents } from "./adapters/discover.ts";
+import { applyRules, DEFAULT_RULES } from "./adapters/rules.ts";
+import type { AdapterContext } from "./adapters/types.ts";
+import { planScopes, type SyncOptions } from "./sync.ts";
+
+export type LintSeverity = "error" | "warning" | "info";
+
+// Which directory an item was found in
+export type LintSide = "claude" | "agents" | "codex";
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  side: LintSide;
+  // Item name: skill directory or agent file name
+  name: string;
+  path: string;
+  line?: number;
+  message: string;
+  fixable: boolean;
+}
+
+export interface LintResult {
+  // Items checked across all sides and scopes
+  checked: number;
+  issues: LintIssue[];
+  // Issues that --fix resolved, no longer listed in issues
+  fixed: LintIssue[];
+}
+
+export interface LintOptions extends SyncOptions {
+  fix?: boolean;
+}
+
+interface LintItem {
+  name: string;
+  kind: "skill" | "agent";
+  side: LintSide;
+  // SKILL.md or the agent file
+  mainFile: string;
+  // Every markdown file of the item
+  files: string[];
+}
+
+interface FileFix {
+  name?: string;
+  content?: string;
+}
+
+export const LINT_RULES: Record<string, LintSeverity> = {
+  "invalid-yaml": "error",
+  "missing-name": "error",
+  "missing-description": "error",
+  "name-mismatch": "error",
+  "name-format": "warning",
+  "name-length": "error",
+  "description-length": "error",
+  "missing-skill-file": "warning",
+  "unknown-field": "warning",
+  "claude-only-field": "info",
+  "broken-link": "warning",
+  "tool-reference": "warning",
+};
+
+// Limits of the Agent Skills spec, which Codex enforces when loading skills
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+export const NAME_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const CLAUDE_SKILL_FIELDS = new Set([
+  "name",
+  "description",
+  "allowed-tools",
+  "argument-hint",
+  "context",
+  "agent",
+  "disable-model-invocation",
+  "user-invocable",
+  "hooks",
+  "license",
+  "metadata",
+  "model",
+  "version",
+]);
+const CLAUDE_AGENT_FIELDS = new Set([
+  "name",
+  "description",
+  "tools",
+  "disallowedTools",
+  "model",
+  "permissionMode",
+  "skills",
+  "hooks",
+  "color",
+]);
+// Fields of the Agent Skills spec; tools reading .agents ignore the rest
+const AGENTS_SKILL_FIELDS = new Set([
+  "name",
+  "description",
+  "license",
+  "compatibility",
+  "metadata",
+  "allowed-tools",
+]);
+
+const CLAUDE_TOOLS = [
+  "Read",
+  "Write",
+  "Edit",
+  "MultiEdit",
+  "Glob",
+  "Grep",
+  "Bash",
+  "WebFetch",
+  "WebSearch",
+  "Task",
+  "TodoWrite",
+  "NotebookEdit",
+].join("|");
+const TOOL_REFERENCE_RE = new RegExp(
+  `\\b(?:[Uu]se )?the (?:${CLAUDE_TOOLS}) tool\\b|\`(?:${CLAUDE_TOOLS})\``,
+  "g"
+);
+const LINK_RE = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+async function skillItems(dir: string, side: LintSide): Promise<LintItem[]> {
+  if (!existsSync(dir)) return [];
+  const items: LintItem[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+    const skillDir = join(dir, entry.name);
+    const files = (await listTree(skillDir))
+      .filter((file) => file.kind === "file" && file.path.endsWith(".md"))
+      .map((file) => join(skillDir, file.path));
+    items.push({
+      name: entry.name,
+      kind: "skill",
+      side,
+      mainFile: join(skillDir, "SKILL.md"),
+      files,
+    });
+  }
+  return items;
+}
+
+async function lintItems(ctx: AdapterContext): Promise<LintItem[]> {
+  const agents = (await discoverAgents(ctx.claudeDir)).map(
+    (path): LintItem => ({
+      name: basename(path, ".md"),
+      kind: "agent",
+      side: "claude",
+      mainFile: path,
+      files: [path],
+    })
+  );
+  return [
+    ...(await skillItems(join(ctx.claudeDir, "skills"), "claude")),
+    ...agents,
+    ...(await skillItems(ctx.agentsSkillsDir, "agents")),
+    ...(await skillItems(ctx.codexSkillsDir, "codex")),
+  ];
+}
+
+function lineOf(text: string, index: number): number {
+  return text.slice(0, index).split("\n").length;
+}
+
+// Line of a top-level frontmatter key, 1-based within the file
+function fieldLine(raw: string, key: string): number | undefined {
+  const index = raw.split("\n").findIndex((line) => line.startsWith(`${key}:`));
+  return index === -1 ? undefined : index + 1;
+}
+
+// Lines outside fenced code blocks, with their 1-based numbers
+function proseLines(text: string, offset: number): [number, string][] {
+  const lines: [number, string][] = [];
+  let inFence = false;
+  for (const [index, line] of text.split("\n").entries()) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    if (!inFence) lines.push([offset + index + 1, line]);
+  }
+  return lines;
+}
+
+// A "%" that isn't an escape, as in "50%-off.md", is taken as written
+function decodeHref(href: string): string {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
+function isExternalLink(target: string): boolean {
+  return (
+    /^[a-z][a-z0-9+.-]*:/i.test(target) ||
+    target.startsWith("#") ||
+    target.startsWith("/") ||
+    target.startsWith("~")
+  );
+}
+
+function lintFrontmatter(
+  item: LintItem,
+  raw: string,
+  data: Record<string, unknown>,
+  report: (issue: Omit<LintIssue, "side" | "name" | "path">) => void,
+  fix: FileFix
+): void {
+  const issue = (
+    rule: string,
+    message: string,
+    line?: number,
+    fixable = false
+  ) => report({ rule, severity: LINT_RULES[rule]!, message, line, fixable });
+
+  const name = data.name;
+  if (typeof name !== "string" || name.trim() === "") {
+    issue("missing-name", `Missing "name"`, fieldLine(raw, "name"), true);
+    fix.name = item.name;
+  } else if (name !== item.name) {
+    issue(
+      "name-mismatch",
+      `Name "${name}" doesn't match ${item.kind === "skill" ? "its directory" : "its file name"} "${item.name}"`,
+      fieldLine(raw, "name"),
+      true
+    );
+    fix.name = item.name;
+  }
+
+  const effectiveName = fix.name ?? String(name);
+  if (effectiveName.length > MAX_NAME_LENGTH) {
+    issue(
+      "name-length",
+      `Name is longer than ${MAX_NAME_LENGTH} characters`,
+      fieldLine(raw, "name")
+    );
+  } else if (!NAME_RE.test(effectiveName)) {
+    issue(
+      "name-format",
+      "Names should use lowercase letters, digits and hyphens",
+      fieldLine(raw, "name")
+    );
+  }
+
+  const description = data.description;
+  if (typeof description !== "string" || description.trim() === "") {
+    issue(
+      "missing-description",
+      `Missing "description"`,
+      fieldLine(raw, "description")
+    );
+  } else if (description.length > MAX_DESCRIPTION_LENGTH) {
+    issue(
+      "description-length",
+      `Description is ${description.length} characters, the limit is ${MAX_DESCRIPTION_LENGTH}`,
+      fieldLine(raw, "description")
+    );
+  }
+
+  const known =
+    item.side !== "claude"
+      ? AGENTS_SKILL_FIELDS
+      : item.kind === "skill"
+        ? CLAUDE_SKILL_FIELDS
+        : CLAUDE_AGENT_FIELDS;
+  for (const key of Object.keys(data)) {
+    if (!known.has(key)) {
+      issue("unknown-field", `Unknown field "${key}"`, fieldLine(raw, key));
+    } else if (
+      item.side === "claude" &&
+      key !== "name" &&
+      key !== "description"
+    ) {
+      issue(
+        "claude-only-field",
+        `"${key}" only applies to Claude; other tools see it under metadata.claude`,
+        fieldLine(raw, key)
+      );
+    }
+  }
+}
+
+async function applyFix(
+  file: string,
+  raw: string,
+  parsed: matter.GrayMatterFile<string>,
+  fix: FileFix
+): Promise<void> {
+  const content = fix.content ?? parsed.content;
+  // Only touch the frontmatter when the name changes
+  const output = fix.name
+    ? matter.stringify(
+        content,
+        Object.assign({ name: fix.name }, parsed.data, { name: fix.name })
+      )
+    : raw.slice(0, raw.length - parsed.content.length) + content;
+
+  await backupPath(file);
+  await Bun.write(file, output);
+}
+
+/**
+ * Check every skill and agent in the Claude, Agents and Codex directories of
+ * the selected scopes. With `fix`, missing or mismatched names are set from
+ * the directory name and tool references in generated copies are rewritten
+ * with the sync rules.
+ */
+export async function lint(options: LintOptions): Promise<LintResult> {
+  const rules = options.rules ?? DEFAULT_RULES;
+  const result: LintResult = { checked: 0, issues: [], fixed: [] };
+
+  for (const run of await planScopes(options)) {
+    for (const item of await lintItems(run.ctx)) {
+      result.checked++;
+      if (item.kind === "skill" && !existsSync(item.mainFile)) {
+        result.issues.push({
+          rule: "missing-skill-file",
+          severity: LINT_RULES["missing-skill-file"]!,
+          side: item.side,
+          name: item.name,
+          path: dirname(item.mainFile),
+          message: "Directory has no SKILL.md and is skipped",
+          fixable: false,
+        });
+        continue;
+      }
+
+      for (const file of item.files) {
+        const fileIssues: LintIssue[] = [];
+        const report = (issue: Omit<LintIssue, "side" | "name" | "path">) =>
+          fileIssues.push({
+            ...issue,
+            side: item.side,
+            name: item.name,
+            path: file,
+          });
+        const fix: FileFix = {};
+        const raw = await readFile(file, "utf-8");
+
+        let parsed: matter.GrayMatterFile<string>;
+        try {
+          parsed = matter(raw);
+        } catch (err) {
+          // js-yaml errors carry a short reason and a 0-based line in the YAML
+          const { reason, mark } = err as {
+            reason?: string;
+            mark?: { line?: number };
+          };
+          report({
+            rule: "invalid-yaml",
+            severity: LINT_RULES["invalid-yaml"]!,
+            message: `Invalid YAML: ${reason ?? String(err).split("\n")[0]}`,
+            line: mark?.line !== undefined ? mark.line + 2 : undefined,
+            fixable: false,
+          });
+          result.issues.push(...fileIssues);
+          continue;
+        }
+
+        if (file === item.mainFile) {
+          lintFrontmatter(item, raw, parsed.data, report, fix);
+        }
+
+        const offset = lineOf(raw, raw.length - parsed.content.length) - 1;
+        const target = item.side === "claude" ? undefined : item.side;
+        const adapted = target
+          ? applyRules(parsed.content, rules, target, "to-agents")
+          : parsed.content;
+        for (const [line, text] of proseLines(parsed.content, offset)) {
+          for (const match of text.matchAll(LINK_RE)) {
+            const href = match[1]!.split("#")[0]!;
+            if (!href || isExternalLink(href)) continue;
+            if (!existsSync(resolve(dirname(file), decodeHref(href)))) {
+              report({
+                rule: "broken-link",
+                severity: LINT_RULES["broken-link"]!,
+                message: `Link to missing file "${href}"`,
+                line,
+                fixable: false,
+              });
+            }
+          }
+
+          for (const match of text.matchAll(TOOL_REFERENCE_RE)) {
+            const rewritten = !applyRules(
+              text,
+              rules,
+              target ?? "agents",
+              "to-agents"
+            ).includes(match[0]);
+            // Claude sources keep their references when rules cover them
+            if (!target && rewritten) continue;
+            report({
+              rule: "tool-reference",
+              severity: LINT_RULES["tool-reference"]!,
+              message: target
+                ? `Claude tool reference "${match[0]}"`
+                : `"${match[0]}" isn't rewritten for other tools; add a rewrite rule`,
+              line,
+              fixable: Boolean(target) && rewritten,
+            });
+            if (target && rewritten) fix.content = adapted;
+          }
+        }
+
+        if (options.fix && !options.dryRun && (fix.name || fix.content)) {
+          await applyFix(file, raw, parsed, fix);
+          result.fixed.push(...fileIssues.filter((issue) => issue.fixable));
+          result.issues.push(...fileIssues.filter((issue) => !issue.fixable));
+        } else {
+          result.issues.push(...fileIssues);
+        }
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,203 @@
+import { createHash } from "crypto";
+import { existsSync } from "fs";
+import { mkdir, readdir, readFile, stat } from "fs/promises";
+import { dirname, join, relative } from "path";
+import { backupPath } from "./backup.ts";
+import type { ItemKind } from "./adapters/types.ts";
+
+export interface ManifestEntry {
+  kind: ItemKind;
+  sourcePath: string;
+  outputPath: string;
+  claudeHash: string;
+  targetHash: string;
+  syncedAt: string;
+}
+
+export interface DocEntry {
+  claudeHash: string;
+  targetHash: string;
+  // Hash per heading section of the Claude side, the base of section merges
+  sections?: Record<string, string>;
+  syncedAt: string;
+}
+
+export interface McpEntry {
+  // Hashes of the server in Codex terms, as last written on each side
+  claudeHash: string;
+  targetHash: string;
+  syncedAt: string;
+}
+
+export interface Manifest {
+  version: 2;
+  // Entries per target id, then per item name
+  targets: Record<string, Record<string, ManifestEntry>>;
+  // Project doc pairs, keyed by the instruction file relative to the root
+  docs?: Record<string, DocEntry>;
+  // MCP servers, keyed by server name
+  mcp?: Record<string, McpEntry>;
+}
+
+type ManifestV1Entry = Omit<ManifestEntry, "targetHash"> & {
+  agentsHash: string;
+};
+
+interface ManifestV1 {
+  version: 1;
+  items: Record<string, ManifestV1Entry>;
+}
+
+export type ChangeState = "none" | "claude" | "target" | "both";
+
+export function defaultManifestPath(agentsSkillsDir: string): string {
+  return join(dirname(agentsSkillsDir), ".sync-agents.json");
+}
+
+export async function loadManifest(path: string): Promise<Manifest> {
+  if (!existsSync(path)) return { version: 2, targets: {} };
+  const raw = await readFile(path, "utf-8");
+  const parsed = JSON.parse(raw) as Manifest | ManifestV1;
+
+  // Version 1 only tracked .agents
+  if (parsed.version === 1) {
+    const agents: Record<string, ManifestEntry> = {};
+    for (const [name, { agentsHash, ...entry }] of Object.entries(
+      parsed.items ?? {}
+    )) {
+      agents[name] = { ...entry, targetHash: agentsHash };
+    }
+    return { version: 2, targets: { agents } };
+  }
+
+  return {
+    version: 2,
+    targets: parsed.targets ?? {},
+    docs: parsed.docs,
+    mcp: parsed.mcp,
+  };
+}
+
+export function manifestEntries(
+  manifest: Manifest,
+  target: string
+): Record<string, ManifestEntry> {
+  manifest.targets[target] ??= {};
+  return manifest.targets[target];
+}
+
+export async function saveManifest(
+  path: string,
+  manifest: Manifest
+): Promise<void> {
+  const content = JSON.stringify(manifest, null, 2) + "\n";
+  // Runs that changed nothing leave no backup behind
+  if (existsSync(path) && (await readFile(path, "utf-8")) === content) return;
+  await backupPath(path, { internal: true });
+  await mkdir(dirname(path), { recursive: true });
+  await Bun.write(path, content);
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path)));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+export function hashContent(content: string): string {
+  return `sha256:${createHash("sha256").update(content).digest("hex")}`;
+}
+
+/**
+ * Hash a file, or every file under a directory (relative paths included so
+ * renames count as changes). Returns null when the path does not exist.
+ */
+export async function hashPath(path: string): Promise<string | null> {
+  if (!existsSync(path)) return null;
+
+  const hash = createHash("sha256");
+  const info = await stat(path);
+
+  if (info.isDirectory()) {
+    const files = (await listFiles(path)).sort();
+    for (const file of files) {
+      hash.update(relative(path, file));
+      hash.update("\0");
+      hash.update(await readFile(file));
+      hash.update("\0");
+    }
+  } else {
+    hash.update(await readFile(path));
+  }
+
+  return `sha256:${hash.digest("hex")}`;
+}
+
+/**
+ * Three-way comparison of both sides against the last synced state.
+ * Items without a base follow the legacy precedence (Claude wins).
+ */
+export function detectChange(
+  base: Pick<ManifestEntry, "claudeHash" | "targetHash"> | undefined,
+  claudeHash: string | null,
+  targetHash: string | null
+): ChangeState {
+  if (!base || !targetHash) return "claude";
+  // Identical sides (e.g. a symlinked skill) never conflict
+  if (claudeHash === targetHash) {
+    return claudeHash === base.claudeHash ? "none" : "claude";
+  }
+
+  const claudeChanged = claudeHash !== base.claudeHash;
+  const targetChanged = targetHash !== base.targetHash;
+
+  if (claudeChanged && targetChanged) return "both";
+  if (targetChanged) return "target";
+  if (claudeChanged) return "claude";
+  return "none";
+}
+
+export async function recordEntry(
+  manifest: Manifest,
+  target: string,
+  name: string,
+  kind: ManifestEntry["kind"],
+  sourcePath: string,
+  outputPath: string
+): Promise<void> {
+  const [claudeHash, targetHash] = await Promise.all([
+    hashPath(sourcePath),
+    hashPath(outputPath),
+  ]);
+  if (!claudeHash || !targetHash) return;
+
+  // Items a run left as they were keep their entry, sync time included
+  const entries = manifestEntries(manifest, target);
+  const previous = entries[name];
+  if (
+    previous?.kind === kind &&
+    previous.sourcePath === sourcePath &&
+    previous.outputPath === outputPath &&
+    previous.claudeHash === claudeHash &&
+    previous.targetHash === targetHash
+  ) {
+    return;
+  }
+
+  entries[name] = {
+    kind,
+    sourcePath,
+    outputPath,
+    claudeHash,
+    targetHash,
+    syncedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,462 @@
+import { existsSync } from "fs";
+import { mkdir, readFile } from "fs/promises";
+import { dirname, join } from "path";
+import { backupPath } from "./backup.ts";
+import type { ConflictResolver } from "./conflicts.ts";
+import {
+  defaultManifestPath,
+  detectChange,
+  hashContent,
+  loadManifest,
+  saveManifest,
+  type Manifest,
+} from "./manifest.ts";
+import { recordWrite } from "./preview.ts";
+import {
+  findProjectRoot,
+  planScopes,
+  projectManifestPath,
+  type SyncConflict,
+  type SyncError,
+  type SyncOptions,
+} from "./sync.ts";
+import type { SyncScope } from "./adapters/types.ts";
+import { removeTomlTable, setTomlTable, type TomlTable } from "./toml.ts";
+
+// A server as Claude stores it in mcpServers
+export interface McpServer {
+  type?: "stdio" | "http" | "sse";
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface SyncedMcpServer {
+  scope: SyncScope;
+  name: string;
+  // Side that was written to
+  target: "claude" | "codex";
+  sourcePath: string;
+  outputPath: string;
+  action: "created" | "updated" | "removed";
+}
+
+export interface McpSyncResult {
+  servers: SyncedMcpServer[];
+  conflicts: SyncConflict[];
+  errors: SyncError[];
+}
+
+// Keys of a Codex [mcp_servers.<name>] table that come from Claude; any
+// other key (timeouts, enabled, ...) is left alone
+const MANAGED_KEYS = ["command", "args", "env", "url", "http_headers"];
+
+interface ClaudeConfig {
+  path: string;
+  data: Record<string, unknown>;
+  servers: Record<string, McpServer>;
+}
+
+interface McpContext {
+  scope: SyncScope;
+  prune: boolean;
+  toClaude: boolean;
+  toCodex: boolean;
+  resolveConflict?: ConflictResolver;
+  manifest: Manifest;
+  configPath: string;
+  config: string;
+  result: McpSyncResult;
+}
+
+// ~/.claude.json sits next to ~/.claude, or inside CLAUDE_CONFIG_DIR
+function claudeJsonPath(claudeDir: string): string {
+  return process.env.CLAUDE_CONFIG_DIR
+    ? join(claudeDir, ".claude.json")
+    : join(dirname(claudeDir), ".claude.json");
+}
+
+async function readClaudeConfig(path: string): Promise<ClaudeConfig> {
+  const data = existsSync(path)
+    ? (JSON.parse(await readFile(path, "utf-8")) as Record<string, unknown>)
+    : {};
+  const servers = (data.mcpServers ?? {}) as Record<string, McpServer>;
+  return { path, data, servers };
+}
+
+async function writeConfig(
+  path: string,
+  content: string,
+  dryRun: boolean
+): Promise<void> {
+  recordWrite(path, content);
+  if (dryRun) return;
+  await backupPath(path);
+  await mkdir(dirname(path), { recursive: true });
+  await Bun.write(path, content);
+}
+
+function readCodexServers(config: string): Record<string, TomlTable> {
+  const parsed = Bun.TOML.parse(config) as { mcp_servers?: unknown };
+  return (parsed.mcp_servers ?? {}) as Record<string, TomlTable>;
+}
+
+function isEmpty(value: object | undefined): boolean {
+  return !value || Object.keys(value).length === 0;
+}
+
+export function toCodexServer(server: McpServer): TomlTable {
+  if (server.url) {
+    return {
+      url: server.url,
+      http_headers: isEmpty(server.headers) ? undefined : server.headers,
+    };
+  }
+  return {
+    command: server.command,
+    args: isEmpty(server.args) ? undefined : server.args,
+    env: isEmpty(server.env) ? undefined : server.env,
+  };
+}
+
+// Codex has no SSE transport, so an SSE server comes back as it was
+export function toClaudeServer(
+  table: TomlTable,
+  previous?: McpServer
+): McpServer {
+  const { command, args, env, url, http_headers, ...rest } = table;
+  const kept = Object.fromEntries(
+    Object.entries(previous ?? {}).filter(
+      ([key]) =>
+        !["type", "command", "args", "env", "url", "headers"].includes(key) &&
+        !(key in rest)
+    )
+  );
+  if (typeof url === "string") {
+    return {
+      type: previous?.type === "sse" ? "sse" : "http",
+      url,
+      ...(isEmpty(http_headers as object)
+        ? {}
+        : { headers: http_headers as Record<string, string> }),
+      ...kept,
+    };
+  }
+  return {
+    type: "stdio",
+    command: command as string,
+    args: (args as string[] | undefined) ?? [],
+    env: (env as Record<string, string> | undefined) ?? {},
+    ...kept,
+  };
+}
+
+// Both sides are compared in Codex terms, so fields Codex can't hold
+// don't count as changes
+function hashServer(table: TomlTable): string {
+  const managed = Object.fromEntries(
+    MANAGED_KEYS.filter((key) => table[key] !== undefined).map((key) => [
+      key,
+      table[key],
+    ])
+  );
+  return hashContent(JSON.stringify(managed));
+}
+
+function record(
+  ctx: McpContext,
+  name: string,
+  claudeHash: string,
+  targetHash: string
+): void {
+  ctx.manifest.mcp ??= {};
+  ctx.manifest.mcp[name] = {
+    claudeHash,
+    targetHash,
+    syncedAt: new Date().toISOString(),
+  };
+}
+
+// Servers the TOML editor can't change are reported and left alone
+function editConfig(
+  ctx: McpContext,
+  name: string,
+  edit: (config: string) => string
+): boolean {
+  try {
+    ctx.config = edit(ctx.config);
+    return true;
+  } catch (err) {
+    ctx.result.errors.push({
+      name,
+      source: ctx.configPath,
+      message: String(err),
+    });
+    return false;
+  }
+}
+
+function writeCodexServer(
+  ctx: McpContext,
+  name: string,
+  server: McpServer
+): boolean {
+  return editConfig(ctx, name, (config) =>
+    setTomlTable(
+      config,
+      ["mcp_servers", name],
+      toCodexServer(server),
+      MANAGED_KEYS
+    )
+  );
+}
+
+async function syncServer(
+  ctx: McpContext,
+  name: string,
+  claude: ClaudeConfig,
+  codex: TomlTable | undefined
+): Promise<boolean> {
+  const base = ctx.manifest.mcp?.[name];
+  const server = claude.servers[name];
+
+  if (!server) {
+    if (!codex) return false;
+    if (!base) {
+      if (!ctx.toClaude) return false;
+      // New in Codex, brought into the Claude config of the same scope
+      claude.servers[name] = toClaudeServer(codex);
+      ctx.result.servers.push({
+        scope: ctx.scope,
+        name,
+        target: "claude",
+        sourcePath: ctx.configPath,
+        outputPath: claude.path,
+        action: "created",
+      });
+      record(ctx, name, hashServer(codex), hashServer(codex));
+      return true;
+    }
+    // Removed from Claude since the last sync
+    if (!ctx.prune) return false;
+    if (hashServer(codex) !== base.targetHash) {
+      ctx.result.conflicts.push({
+        name,
+        kind: "mcp",
+        target: "codex",
+        reason: "deleted-in-claude",
+        claudePath: claude.path,
+        targetPath: ctx.configPath,
+      });
+      return false;
+    }
+    const removed = editConfig(ctx, name, (config) =>
+      removeTomlTable(config, ["mcp_servers", name])
+    );
+    if (!removed) return false;
+    delete ctx.manifest.mcp![name];
+    ctx.result.servers.push({
+      scope: ctx.scope,
+      name,
+      target: "codex",
+      sourcePath: claude.path,
+      outputPath: ctx.configPath,
+      action: "removed",
+    });
+    return false;
+  }
+
+  const claudeHash = hashServer(toCodexServer(server));
+  const targetHash = codex ? hashServer(codex) : null;
+  if (claudeHash === targetHash) {
+    if (base?.targetHash !== targetHash) {
+      record(ctx, name, claudeHash, targetHash);
+    }
+    return false;
+  }
+
+  let change = detectChange(base, claudeHash, targetHash);
+  if (change === "both" && ctx.resolveConflict) {
+    const choice = await ctx.resolveConflict({
+      name,
+      kind: "mcp",
+      target: "codex",
+      claudeFile: claude.path,
+      targetFile: ctx.configPath,
+      claudeContent: JSON.stringify(toCodexServer(server), null, 2) + "\n",
+      targetContent: JSON.stringify(codex, null, 2) + "\n",
+    });
+    if (choice === "skip") return false;
+    change = choice;
+    if (choice === "claude") {
+      // The resolver may have opened the Claude config in an editor
+      const reloaded = await readClaudeConfig(claude.path);
+      claude.servers[name] = reloaded.servers[name] ?? server;
+    }
+  }
+  if (change === "none") return false;
+  if (change === "both") {
+    ctx.result.conflicts.push({
+      name,
+      kind: "mcp",
+      target: "codex",
+      reason: "both-changed",
+      claudePath: claude.path,
+      targetPath: ctx.configPath,
+    });
+    return false;
+  }
+
+  if (change === "target") {
+    if (!ctx.toClaude) return false;
+    claude.servers[name] = toClaudeServer(codex!, server);
+    ctx.result.servers.push({
+      scope: ctx.scope,
+      name,
+      target: "claude",
+      sourcePath: ctx.configPath,
+      outputPath: claude.path,
+      action: "updated",
+    });
+    record(ctx, name, targetHash!, targetHash!);
+    return true;
+  }
+
+  if (!ctx.toCodex) return false;
+  const output = claude.servers[name]!;
+  if (!writeCodexServer(ctx, name, output)) return false;
+  ctx.result.servers.push({
+    scope: ctx.scope,
+    name,
+    target: "codex",
+    sourcePath: claude.path,
+    outputPath: ctx.configPath,
+    action: codex ? "updated" : "created",
+  });
+  const hash = hashServer(toCodexServer(output));
+  record(ctx, name, hash, hash);
+  return false;
+}
+
+interface McpPair {
+  scope: SyncScope;
+  claudePath: string;
+  configPath: string;
+  manifestPath: string;
+}
+
+async function syncMcpPair(
+  pair: McpPair,
+  options: SyncOptions,
+  result: McpSyncResult
+): Promise<void> {
+  const { dryRun, prune = false, directions = {} } = options;
+  const { scope, configPath, manifestPath } = pair;
+  let claude: ClaudeConfig;
+  let config: string;
+  let codexServers: Record<string, TomlTable>;
+  try {
+    claude = await readClaudeConfig(pair.claudePath);
+    config = existsSync(configPath) ? await readFile(configPath, "utf-8") : "";
+    codexServers = readCodexServers(config);
+  } catch (err) {
+    result.errors.push({
+      name: "mcp",
+      source: configPath,
+      message: String(err),
+    });
+    return;
+  }
+
+  const manifest = await loadManifest(manifestPath);
+  const before = JSON.stringify(manifest.mcp ?? {});
+  const ctx: McpContext = {
+    scope,
+    prune,
+    toClaude: directions.toClaude ?? true,
+    toCodex: directions.toAgents ?? true,
+    resolveConflict: options.resolveConflict,
+    manifest,
+    configPath,
+    config,
+    result,
+  };
+
+  const names = new Set([
+    ...Object.keys(claude.servers),
+    ...Object.keys(codexServers),
+  ]);
+  let changedClaude = false;
+  for (const name of [...names].sort()) {
+    const written = await syncServer(ctx, name, claude, codexServers[name]);
+    changedClaude ||= written;
+  }
+
+  if (changedClaude) {
+    claude.data.mcpServers = claude.servers;
+    const content = JSON.stringify(claude.data, null, 2) + "\n";
+    await writeConfig(claude.path, content, dryRun);
+  }
+  if (ctx.config !== config) {
+    await writeConfig(configPath, ctx.config, dryRun);
+  }
+  if (!dryRun && JSON.stringify(manifest.mcp ?? {}) !== before) {
+    await saveManifest(manifestPath, manifest);
+  }
+}
+
+/**
+ * Keep the MCP servers of ~/.claude.json in step with the [mcp_servers]
+ * tables of ~/.codex/config.toml, and those of the project .mcp.json with
+ * the project .codex/config.toml. Servers are matched by name and compared
+ * against the last sync, like skills. Project servers never reach the
+ * user-level Codex config, which every other project shares.
+ */
+export async function syncMcp(options: SyncOptions): Promise<McpSyncResult> {
+  const {
+    cwd = process.cwd(),
+    syncGlobal = true,
+    syncLocal = true,
+    manifestPath = defaultManifestPath(options.agentsSkillsDir),
+  } = options;
+  const result: McpSyncResult = { servers: [], conflicts: [], errors: [] };
+
+  const run = (
+    await planScopes({ ...options, syncGlobal: true, syncLocal: false })
+  )[0];
+  const adapter = run?.adapters.find((candidate) => candidate.mcpConfigPath);
+  if (!run || !adapter) return result;
+
+  const globalConfigPath = adapter.mcpConfigPath!(run.ctx);
+  const pairs: McpPair[] = [];
+  if (syncGlobal) {
+    pairs.push({
+      scope: "global",
+      claudePath: claudeJsonPath(options.claudeDir),
+      configPath: globalConfigPath,
+      manifestPath,
+    });
+  }
+  if (syncLocal) {
+    const root = options.projectRoot ?? (await findProjectRoot(cwd));
+    const configPath = join(root, ".codex", "config.toml");
+    // From $HOME the project Codex config is the user-level one
+    if (
+      existsSync(join(root, ".mcp.json")) &&
+      configPath !== globalConfigPath
+    ) {
+      pairs.push({
+        scope: "project",
+        claudePath: join(root, ".mcp.json"),
+        configPath,
+        manifestPath: projectManifestPath(options.agentsSkillsDir, root),
+      });
+    }
+  }
+
+  for (const pair of pairs) await syncMcpPair(pair, options, result);
+  return result;
+}
@@ -0,0 +1,121 @@
+import { createHash } from "crypto";
+
+export interface Section {
+  // Heading line, numbered when repeated; "" for text before the first heading
+  key: string;
+  text: string;
+}
+
+const HEADING_RE = /^#{1,6}\s/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/**
+ * Split markdown at its headings. Each section runs from a heading to the
+ * next one, whatever its level, so the sections concatenate back to the
+ * original text.
+ */
+export function splitSections(content: string): Section[] {
+  const sections: Section[] = [];
+  const seen = new Map<string, number>();
+  let current: Section = { key: "", text: "" };
+  let inFence = false;
+
+  for (const line of content.split(/(?<=\n)/)) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    if (!inFence && HEADING_RE.test(line)) {
+      if (current.key || current.text) sections.push(current);
+      const heading = line.trim();
+      const count = (seen.get(heading) ?? 0) + 1;
+      seen.set(heading, count);
+      current = { key: count > 1 ? `${heading}#${count}` : heading, text: "" };
+    }
+    current.text += line;
+  }
+  if (current.key || current.text) sections.push(current);
+
+  return sections;
+}
+
+function hashSection(text: string): string {
+  return createHash("sha256").update(text.trimEnd()).digest("hex").slice(0, 16);
+}
+
+export function sectionHashes(content: string): Record<string, string> {
+  return Object.fromEntries(
+    splitSections(content).map((section) => [
+      section.key,
+      hashSection(section.text),
+    ])
+  );
+}
+
+// Sections taken from either side are kept one blank line apart
+function joinSections(sections: Section[]): string {
+  return sections
+    .map((section, index) => {
+      if (index === sections.length - 1) return section.text;
+      const text = section.text.trimEnd();
+      return text ? `${text}\n\n` : "";
+    })
+    .join("");
+}
+
+/**
+ * Three-way merge of two markdown documents, one heading section at a time,
+ * against the section hashes of the last synced version. Returns null when
+ * a section was changed on both sides, or changed on one and removed on the
+ * other. Sections added on one side keep their place after the section they
+ * followed.
+ */
+export function mergeSections(
+  ours: string,
+  theirs: string,
+  base: Record<string, string>
+): string | null {
+  const ourSections = splitSections(ours);
+  const theirSections = splitSections(theirs);
+  const theirByKey = new Map(theirSections.map((s) => [s.key, s]));
+  const ourKeys = new Set(ourSections.map((s) => s.key));
+
+  const merged: Section[] = [];
+  for (const section of ourSections) {
+    const ourHash = hashSection(section.text);
+    const their = theirByKey.get(section.key);
+    const baseHash = base[section.key];
+
+    if (!their) {
+      // Removed on their side, unless it's new on ours
+      if (baseHash === undefined) merged.push(section);
+      else if (ourHash !== baseHash) return null;
+      continue;
+    }
+
+    const theirHash = hashSection(their.text);
+    if (ourHash === theirHash || theirHash === baseHash) {
+      merged.push(section);
+    } else if (ourHash === baseHash) {
+      merged.push(their);
+    } else {
+      return null;
+    }
+  }
+
+  for (const [index, section] of theirSections.entries()) {
+    if (ourKeys.has(section.key)) continue;
+    const baseHash = base[section.key];
+    if (baseHash !== undefined) {
+      // Removed on our side
+      if (hashSection(section.text) !== baseHash) return null;
+      continue;
+    }
+
+    const previous = theirSections
+      .slice(0, index)
+      .reverse()
+      .map((candidate) => merged.findIndex((m) => m.key === candidate.key))
+      .find((position) => position >= 0);
+    merged.splice(previous === undefined ? 0 : previous + 1, 0, section);
+  }
+
+  return joinSections(merged);
+}
@@ -0,0 +1,119 @@
+import { existsSync } from "fs";
+import { readFile, stat } from "fs/promises";
+import { join } from "path";
+import { displayPath } from "./adapters/provenance.ts";
+import { unifiedDiff } from "./diff.ts";
+import type { FileAction } from "./sync.ts";
+
+// What a file would hold after the run, or null when it would be deleted
+export type PlannedContent = string | Uint8Array | null;
+
+export interface FileDiff extends Omit<FileAction, "action"> {
+  status: "added" | "modified" | "removed";
+  // Unified diff, or a note for binary files
+  diff: string;
+}
+
+// Only one preview records at a time; write sites call recordWrite
+// unconditionally and it does nothing outside a preview
+let active: Map<string, PlannedContent> | null = null;
+
+/**
+ * Start keeping the content of every write and delete in memory, so a dry
+ * run can show what it would have done.
+ */
+export function beginPreview(): void {
+  active = new Map();
+}
+
+export function endPreview(): Map<string, PlannedContent> {
+  const planned = active ?? new Map();
+  active = null;
+  return planned;
+}
+
+export function recordWrite(path: string, content: string | Uint8Array): void {
+  active?.set(path, content);
+}
+
+// Directories are expanded into their files when diffed
+export function recordDelete(path: string): void {
+  active?.set(path, null);
+}
+
+function toBytes(content: string | Uint8Array): Uint8Array {
+  return typeof content === "string"
+    ? new TextEncoder().encode(content)
+    : content;
+}
+
+function fileDiff(
+  action: FileAction,
+  path: string,
+  from: Uint8Array | null,
+  to: Uint8Array | null
+): FileDiff | null {
+  if (from && to && Buffer.compare(from, to) === 0) return null;
+  const status = !from ? "added" : !to ? "removed" : "modified";
+  const isBinary = [from, to].some((bytes) => bytes?.includes(0));
+  const decode = (bytes: Uint8Array | null) =>
+    bytes ? new TextDecoder().decode(bytes) : "";
+  const label = displayPath(path);
+  return {
+    scope: action.scope,
+    name: action.name,
+    kind: action.kind,
+    target: action.target,
+    path,
+    status,
+    diff: isBinary
+      ? `Binary file ${label} ${status}`
+      : unifiedDiff(decode(from), decode(to), {
+          fromLabel: from ? label : "/dev/null",
+          toLabel: to ? label : "/dev/null",
+        }),
+  };
+}
+
+/**
+ * Per-file diffs of the planned content against what's on disk, for the
+ * files a dry run reported. Deleted directories list each of their files;
+ * files the run would leave as they are, and writes it didn't record
+ * (symlinks), are left out.
+ */
+export async function previewDiffs(
+  actions: FileAction[],
+  planned: Map<string, PlannedContent>
+): Promise<FileDiff[]> {
+  const diffs: FileDiff[] = [];
+  const seen = new Set<string>();
+
+  for (const action of actions) {
+    if (seen.has(action.path)) continue;
+    seen.add(action.path);
+
+    if (action.action === "delete") {
+      if (!existsSync(action.path)) continue;
+      const files = (await stat(action.path)).isDirectory()
+        ? (await Array.fromAsync(new Bun.Glob("**/*").scan(action.path)))
+            .sort()
+            .map((file) => join(action.path, file))
+        : [action.path];
+      for (const file of files) {
+        const diff = fileDiff(action, file, await readFile(file), null);
+        if (diff) diffs.push(diff);
+      }
+      continue;
+    }
+
+    const content = planned.get(action.path);
+    if (content === undefined || content === null) continue;
+    const current = existsSync(action.path)
+      ? new Uint8Array(await readFile(action.path))
+      : null;
+    const diff = fileDiff(action, action.path, current, toBytes(content));
+    if (diff) diffs.push(diff);
+  }
+
+  return diffs;
+}
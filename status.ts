@@ -0,0 +1,329 @@
+import { existsSync } from "fs";
+import { lstat, mkdtemp, readFile, readlink, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join, resolve } from "path";
+import { listTree } from "./adapters/copy.ts";
+import { discoverClaudeItems, discoverSkillDirs } from "./adapters/discover.ts";
+import type { SyncScope } from "./adapters/types.ts";
+import { expandImports } from "./docs.ts";
+import {
+  detectChange,
+  hashContent,
+  hashPath,
+  loadManifest,
+  manifestEntries,
+} from "./manifest.ts";
+import {
+  findProjectRoot,
+  matchesFilters,
+  planScopes,
+  projectManifestPath,
+  sync,
+  type ScopeResult,
+  type ScopeRun,
+  type SyncOptions,
+  type SyncResult,
+} from "./sync.ts";
+
+export const ITEM_STATES = [
+  "in-sync",
+  "drifted",
+  "conflict",
+  "orphaned",
+] as const;
+export type ItemState = (typeof ITEM_STATES)[number];
+
+export type NextAction =
+  | "none"
+  | "to-agents"
+  | "to-claude"
+  | "from-codex"
+  | "cleanup"
+  | "prune"
+  | "conflict";
+
+export interface StatusRow {
+  scope: SyncScope;
+  name: string;
+  kind: "skill" | "agent" | "doc";
+  present: { claude: boolean; agents: boolean; codex: boolean };
+  // Side changed since the last sync, or modified last when never synced
+  newer: "claude" | "agents" | "both" | null;
+  // Whether the Claude item, transformed for Agents, matches the Agents
+  // copy; null unless both exist
+  equivalent: boolean | null;
+  next: NextAction;
+  state: ItemState;
+}
+
+export interface StatusOptions extends SyncOptions {
+  // Names or globs to show (default: all)
+  names?: string[];
+  states?: ItemState[];
+}
+
+// Latest modification in a file or skill directory
+async function modifiedAt(path: string): Promise<number> {
+  const info = await stat(path);
+  if (!info.isDirectory()) return info.mtimeMs;
+  let latest = info.mtimeMs;
+  for (const entry of await listTree(path)) {
+    latest = Math.max(latest, (await lstat(join(path, entry.path))).mtimeMs);
+  }
+  return latest;
+}
+
+async function newerSide(
+  base: { claudeHash: string; targetHash: string } | undefined,
+  claudePath: string,
+  claudeHash: string,
+  agentsPath: string,
+  agentsHash: string
+): Promise<StatusRow["newer"]> {
+  if (base) {
+    const change = detectChange(base, claudeHash, agentsHash);
+    if (change === "none") return null;
+    return change === "target" ? "agents" : change;
+  }
+  if (claudeHash === agentsHash) return null;
+  const [claudeTime, agentsTime] = await Promise.all([
+    modifiedAt(claudePath),
+    modifiedAt(agentsPath),
+  ]);
+  return claudeTime >= agentsTime ? "claude" : "agents";
+}
+
+function nextActions(scope: ScopeResult | null): Map<string, NextAction> {
+  const next = new Map<string, NextAction>();
+  if (!scope) return next;
+  const set = (names: string[], action: NextAction) => {
+    for (const name of names) next.set(name, action);
+  };
+  set(scope.deletedFromCodex, "cleanup");
+  set(
+    scope.migratedFromCodex.skills.map((item) => item.name),
+    "from-codex"
+  );
+  set(
+    [...scope.toAgents.skills, ...scope.toAgents.agents].map(
+      (item) => item.name
+    ),
+    "to-agents"
+  );
+  set(
+    [...scope.toClaude.skills, ...scope.toClaude.agents].map(
+      (item) => item.name
+    ),
+    "to-claude"
+  );
+  set(
+    scope.pruned
+      .filter((item) => item.target === "agents")
+      .map((item) => item.name),
+    "prune"
+  );
+  set(
+    scope.conflicts
+      .filter((conflict) => conflict.target === "agents")
+      .map((conflict) => conflict.name),
+    "conflict"
+  );
+  return next;
+}
+
+function stateOf(row: Omit<StatusRow, "state">): ItemState {
+  if (row.next === "conflict") return "conflict";
+  if (row.next !== "none") return "drifted";
+  if (!row.present.claude) return "orphaned";
+  return row.present.agents && row.equivalent !== false ? "in-sync" : "drifted";
+}
+
+/**
+ * Whether the Agents copy is what a sync would generate now. The Claude
+ * item is rendered into a scratch directory and compared with it.
+ */
+async function isEquivalent(
+  run: ScopeRun,
+  item: { name: string; kind: "skill" | "agent"; path: string },
+  agentsPath: string,
+  scratch: string
+): Promise<boolean | null> {
+  const adapter = run.adapters.find((candidate) => candidate.id === "agents");
+  if (!adapter?.transformOut) return null;
+  if ((await lstat(agentsPath)).isSymbolicLink()) {
+    const target = resolve(dirname(agentsPath), await readlink(agentsPath));
+    return target === item.path;
+  }
+  const rendered = await adapter.transformOut(item, {
+    ...run.ctx,
+    agentsSkillsDir: join(scratch, run.ctx.scope),
+    dryRun: false,
+    link: false,
+  });
+  if (!rendered) return null;
+  return (await hashPath(rendered.outputPath)) === (await hashPath(agentsPath));
+}
+
+async function scopeRows(
+  run: ScopeRun,
+  result: ScopeResult | null,
+  scratch: string
+): Promise<StatusRow[]> {
+  const { ctx } = run;
+  const manifest = await loadManifest(run.manifestPath);
+  const entries = manifestEntries(manifest, "agents");
+  const next = nextActions(result);
+
+  const claude = new Map(
+    (await discoverClaudeItems(ctx.claudeDir))
+      .filter((item) => item.kind !== "command")
+      .map((item) => [item.name, item])
+  );
+  const agents = new Set(
+    (await discoverSkillDirs(ctx.agentsSkillsDir)).map((dir) => basename(dir))
+  );
+  const codex = new Set(
+    (await discoverSkillDirs(ctx.codexSkillsDir)).map((dir) => basename(dir))
+  );
+
+  const rows: StatusRow[] = [];
+  const names = new Set([...claude.keys(), ...agents, ...codex]);
+  for (const name of [...names].sort()) {
+    const item = claude.get(name);
+    const agentsPath = join(ctx.agentsSkillsDir, name);
+    // discoverSkillDirs skips links, so --link copies are looked up directly
+    const inAgents = agents.has(name) || existsSync(agentsPath);
+    const kind = (item?.kind ?? entries[name]?.kind ?? "skill") as
+      "skill" | "agent";
+    let newer: StatusRow["newer"] = null;
+    let equivalent: boolean | null = null;
+    if (item && inAgents) {
+      const [claudeHash, agentsHash] = await Promise.all([
+        hashPath(item.path),
+        hashPath(agentsPath),
+      ]);
+      newer = await newerSide(
+        entries[name],
+        item.path,
+        claudeHash!,
+        agentsPath,
+        agentsHash!
+      );
+      equivalent = await isEquivalent(
+        run,
+        { name, kind, path: item.path },
+        agentsPath,
+        scratch
+      );
+    }
+    const row: Omit<StatusRow, "state"> = {
+      scope: ctx.scope,
+      name,
+      kind,
+      present: {
+        claude: Boolean(item),
+        agents: inAgents,
+        codex: codex.has(name),
+      },
+      newer,
+      equivalent,
+      next: next.get(name) ?? "none",
+    };
+    rows.push({ ...row, state: stateOf(row) });
+  }
+  return rows;
+}
+
+// The CLAUDE.md / AGENTS.md pair at the project root
+async function projectDocRow(
+  options: SyncOptions,
+  result: SyncResult
+): Promise<StatusRow | null> {
+  const root =
+    options.projectRoot ??
+    (await findProjectRoot(options.cwd ?? process.cwd()));
+  const claudePath = join(root, "CLAUDE.md");
+  const agentsPath = join(root, "AGENTS.md");
+  const claude = existsSync(claudePath)
+    ? await readFile(claudePath, "utf-8")
+    : null;
+  const agents = existsSync(agentsPath)
+    ? await readFile(agentsPath, "utf-8")
+    : null;
+  if (claude === null && agents === null) return null;
+
+  let newer: StatusRow["newer"] = null;
+  let equivalent: boolean | null = null;
+  if (claude !== null && agents !== null) {
+    const manifest = await loadManifest(
+      projectManifestPath(options.agentsSkillsDir, root)
+    );
+    equivalent = agents === (await expandImports(claude, claudePath));
+    if (!equivalent) {
+      newer = await newerSide(
+        manifest.docs?.["AGENTS.md"],
+        claudePath,
+        hashContent(claude),
+        agentsPath,
+        hashContent(agents)
+      );
+    }
+  }
+
+  const written = result.docs.find(
+    (doc) => doc.outputPath === agentsPath || doc.outputPath === claudePath
+  );
+  const conflict = result.docConflicts.some(
+    (doc) => doc.targetPath === agentsPath
+  );
+  let next: NextAction = "none";
+  if (conflict) {
+    next = "conflict";
+  } else if (written) {
+    next = written.outputPath === agentsPath ? "to-agents" : "to-claude";
+  }
+  const row: Omit<StatusRow, "state"> = {
+    scope: "project",
+    name: "CLAUDE.md",
+    kind: "doc",
+    present: { claude: claude !== null, agents: agents !== null, codex: false },
+    newer,
+    equivalent,
+    next,
+  };
+  return { ...row, state: stateOf(row) };
+}
+
+/**
+ * Every skill and agent found in Claude, Agents or Codex, plus the project
+ * doc pair, with what a sync would do next. Nothing is written.
+ */
+export async function status(options: StatusOptions): Promise<StatusRow[]> {
+  const result = await sync({
+    ...options,
+    dryRun: true,
+    resolveConflict: undefined,
+  });
+
+  const rows: StatusRow[] = [];
+  const scratch = await mkdtemp(join(tmpdir(), "sync-agents-"));
+  try {
+    for (const run of await planScopes(options)) {
+      const scoped = run.ctx.scope === "global" ? result : result.project;
+      rows.push(...(await scopeRows(run, scoped, scratch)));
+    }
+  } finally {
+    await rm(scratch, { recursive: true, force: true });
+  }
+  if (options.syncLocal !== false) {
+    const doc = await projectDocRow(options, result);
+    if (doc) rows.push(doc);
+  }
+
+  return rows.filter(
+    (row) =>
+      matchesFilters(row.name, options.include, options.exclude) &&
+      matchesFilters(row.name, options.names, undefined) &&
+      (!options.states?.length || options.states.includes(row.state))
+  );
+}
@@ -1,12 +1,62 @@
-import { existsSync } from "fs";
-import { copyFile, mkdir, readdir, readFile, stat } from "fs/promises";
-import { basename, join } from "path";
-import { transformSkill, type SyncedSkill } from "./adapters/skill.ts";
-import { transformAgent, type SyncedAgent } from "./adapters/agent.ts";
+import { createHash } from "crypto";
+import matter from "gray-matter";
+import { existsSync, statSync } from "fs";
+import { readFile, rm } from "fs/promises";
+import { homedir } from "os";
+import { basename, dirname, join, relative } from "path";
 import {
-  transformCodexSkillToClaude,
-  type SyncedClaudeItem,
-} from "./adapters/codex.ts";
+  backupPath,
+  beginRun,
+  defaultBackupDir,
+  DEFAULT_KEEP_BACKUPS,
+  endRun,
+} from "./backup.ts";
+import type { ConflictResolver } from "./conflicts.ts";
+import { syncDocs, syncGlobalDocs } from "./docs.ts";
+import { syncMcp, type SyncedMcpServer } from "./mcp.ts";
+import {
+  beginPreview,
+  endPreview,
+  previewDiffs,
+  recordDelete,
+  type FileDiff,
+} from "./preview.ts";
+import type { WrittenFile } from "./adapters/copy.ts";
+import type { SyncedSkill } from "./adapters/skill.ts";
+import {
+  DEFAULT_RULES,
+  restoreRules,
+  type RewriteRule,
+} from "./adapters/rules.ts";
+import { toClaudeFrontmatter } from "./adapters/frontmatter.ts";
+import { stripProvenanceHeader } from "./adapters/provenance.ts";
+import type { SyncedAgent } from "./adapters/agent.ts";
+import type { SyncedClaudeItem } from "./adapters/codex.ts";
+import { discoverClaudeItems } from "./adapters/discover.ts";
+import { resolveAdapters } from "./adapters/index.ts";
+import type {
+  AdapterContext,
+  ClaudeItem,
+  ItemKind,
+  SyncAdapter,
+  SyncScope,
+} from "./adapters/types.ts";
+import {
+  defaultManifestPath,
+  detectChange,
+  hashPath,
+  loadManifest,
+  manifestEntries,
+  recordEntry,
+  saveManifest,
+  type Manifest,
+} from "./manifest.ts";
+
+export interface SyncDirections {
+  toAgents?: boolean;
+  fromCodex?: boolean;
+  toClaude?: boolean;
+}
 
 export interface SyncOptions {
   claudeDir: string;
@@ -17,13 +67,73 @@ export interface SyncOptions {
   syncGlobal?: boolean;
   syncLocal?: boolean;
   cleanupCodex?: boolean;
+  manifestPath?: string;
+  prune?: boolean;
+  rules?: RewriteRule[];
+  directions?: SyncDirections;
+  // Glob patterns matched against skill and agent names
+  include?: string[];
+  exclude?: string[];
+  // Adapter ids to sync with (default: agents, codex)
+  targets?: string[];
+  // Repository whose .claude is synced when syncLocal is on (default: git root of cwd)
+  projectRoot?: string;
+  // Decides items and project docs changed on both sides; without it they
+  // are reported as conflicts
+  resolveConflict?: ConflictResolver;
+  // Where runs snapshot what they overwrite (default: ~/.agents/.sync-agents/backups)
+  backupDir?: string;
+  // Runs kept in the backup store, 0 disables backups
+  keepBackups?: number;
+  // Symlink skills that need no rewriting, and AGENTS.md with linkDocs
+  link?: boolean;
+  linkDocs?: boolean;
+  // Merge docs changed on both sides when different headings were edited
+  mergeDocs?: boolean;
+  // With dryRun, diff the would-be output of every file against the disk
+  diff?: boolean;
+  // User-level instruction files (default: <claudeDir>/CLAUDE.md and the
+  // global doc of each target, like ~/.codex/AGENTS.md)
+  globalClaudeDoc?: string;
+  globalAgentsDoc?: string;
 }
 
 export interface SyncedDoc {
   name: string;
   sourcePath: string;
   outputPath: string;
-  action: "created" | "updated";
+  action: "created" | "updated" | "linked" | "merged" | "removed";
+}
+
+export interface SyncConflict {
+  name: string;
+  kind: ItemKind | "doc" | "mcp";
+  target: string;
+  reason: "both-changed" | "deleted-in-claude";
+  claudePath: string;
+  targetPath: string;
+}
+
+export interface PrunedItem {
+  name: string;
+  kind: ItemKind;
+  target: string;
+  path: string;
+}
+
+export interface TargetSync {
+  target: string;
+  label: string;
+  skills: SyncedSkill[];
+  agents: SyncedAgent[];
+  commands: SyncedSkill[];
+}
+
+// Item rendered for a target that already had exactly that output
+export interface UnchangedItem {
+  name: string;
+  kind: ItemKind;
+  target: string;
 }
 
 export interface SyncError {
@@ -32,184 +142,561 @@ export interface SyncError {
   message: string;
 }
 
-export interface SyncResult {
+export interface ScopeResult {
   toAgents: {
     skills: SyncedSkill[];
     agents: SyncedAgent[];
   };
+  // Claude → every other selected target
+  targets: TargetSync[];
   toClaude: {
     skills: SyncedClaudeItem[];
     agents: SyncedClaudeItem[];
+    commands: SyncedClaudeItem[];
   };
   migratedFromCodex: {
     skills: SyncedSkill[];
   };
   deletedFromCodex: string[];
-  docs: SyncedDoc[];
+  // Items whose output was already up to date; not counted as changes
+  unchanged: UnchangedItem[];
+  conflicts: SyncConflict[];
+  pruned: PrunedItem[];
   errors: SyncError[];
 }
 
-async function discoverSkillDirs(skillsDir: string): Promise<string[]> {
-  if (!existsSync(skillsDir)) return [];
+export interface FileAction {
+  scope: SyncScope;
+  // Item name, doc file name or MCP server name
+  name: string;
+  kind: ItemKind | "doc" | "mcp";
+  // Side that is written to or deleted from
+  target: string;
+  action: "write" | "delete";
+  path: string;
+}
 
-  const entries = await readdir(skillsDir, { withFileTypes: true });
-  const dirs = entries
-    .filter((e) => e.isDirectory())
-    .map((e) => join(skillsDir, e.name));
+export interface ProjectScopeResult extends ScopeResult {
+  root: string;
+}
+
+export interface SyncResult extends ScopeResult {
+  // Skills and agents under <project>/.claude, null when not synced
+  project: ProjectScopeResult | null;
+  docs: SyncedDoc[];
+  // User-level CLAUDE.md and its counterparts
+  globalDocs: SyncedDoc[];
+  // Docs changed on both sides and left untouched
+  docConflicts: SyncConflict[];
+  // MCP servers written to Claude or Codex config files
+  mcp: SyncedMcpServer[];
+  mcpConflicts: SyncConflict[];
+  // Every file written or deleted, across scopes and docs
+  files: FileAction[];
+  // Backup run that can be undone, null when nothing was written
+  runId: string | null;
+  // Per-file diffs of a dry run with the diff option
+  diffs?: FileDiff[];
+}
+
+// Capability an adapter needs to receive each kind of Claude item
+const CAPABILITIES: Record<ItemKind, "skills" | "agents" | "commands"> = {
+  skill: "skills",
+  agent: "agents",
+  command: "commands",
+};
+
+export function matchesFilters(
+  name: string,
+  include: string[] | undefined,
+  exclude: string[] | undefined
+): boolean {
+  const matches = (pattern: string) => new Bun.Glob(pattern).match(name);
+  if (include && include.length > 0 && !include.some(matches)) return false;
+  if (exclude && exclude.some(matches)) return false;
+  return true;
+}
+
+// The file a skill directory or agent is mostly made of
+function mainFile(path: string): string {
+  return existsSync(path) && statSync(path).isDirectory()
+    ? join(path, "SKILL.md")
+    : path;
+}
+
+// Both sides of a conflicting item in Claude's format, so diffs only show edits
+async function renderConflictSides(
+  claudeFile: string,
+  targetFile: string,
+  rules: RewriteRule[],
+  target: string
+): Promise<{ claudeContent: string; targetContent: string }> {
+  const render = (data: Record<string, unknown>, content: string) =>
+    matter.stringify(content.trimStart(), data);
+  const claude = matter(await readFile(claudeFile, "utf-8"));
+  const other = matter(await readFile(targetFile, "utf-8"));
+  return {
+    claudeContent: render(claude.data, claude.content),
+    targetContent: render(
+      toClaudeFrontmatter(other.data),
+      restoreRules(
+        stripProvenanceHeader(other.content.trimStart()),
+        claude.content,
+        rules,
+        target
+      )
+    ),
+  };
+}
+
+export async function findProjectRoot(cwd: string): Promise<string> {
+  const result = await Bun.$`git rev-parse --show-toplevel`
+    .cwd(cwd)
+    .quiet()
+    .nothrow();
+  const root = result.stdout.toString().trim();
+  return result.exitCode === 0 && root ? root : cwd;
+}
+
+// Project manifests live next to the global one so repositories stay clean
+export function projectManifestPath(
+  agentsSkillsDir: string,
+  projectRoot: string
+): string {
+  const id = createHash("sha256").update(projectRoot).digest("hex").slice(0, 8);
+  return join(
+    dirname(agentsSkillsDir),
+    ".sync-agents",
+    "projects",
+    `${basename(projectRoot)}-${id}.json`
+  );
+}
+
+function fileActions(scope: ScopeResult, ctx: AdapterContext): FileAction[] {
+  const actions: FileAction[] = [];
+  const writes = (
+    items: { name: string; files: WrittenFile[]; removed?: string[] }[],
+    kind: ItemKind,
+    target: string
+  ) => {
+    for (const item of items) {
+      for (const { path, action } of item.files) {
+        if (action === "unchanged") continue;
+        actions.push({
+          scope: ctx.scope,
+          name: item.name,
+          kind,
+          target,
+          action: "write",
+          path,
+        });
+      }
+      for (const path of item.removed ?? []) {
+        actions.push({
+          scope: ctx.scope,
+          name: item.name,
+          kind,
+          target,
+          action: "delete",
+          path,
+        });
+      }
+    }
+  };
 
-  const valid: string[] = [];
-  for (const dir of dirs) {
-    if (existsSync(join(dir, "SKILL.md"))) valid.push(dir);
+  writes(scope.toAgents.skills, "skill", "agents");
+  writes(scope.toAgents.agents, "agent", "agents");
+  for (const target of scope.targets) {
+    writes(target.skills, "skill", target.target);
+    writes(target.agents, "agent", target.target);
+    writes(target.commands, "command", target.target);
+  }
+  writes(scope.migratedFromCodex.skills, "skill", "agents");
+  writes(scope.toClaude.skills, "skill", "claude");
+  writes(scope.toClaude.agents, "agent", "claude");
+  writes(scope.toClaude.commands, "command", "claude");
+
+  for (const name of scope.deletedFromCodex) {
+    actions.push({
+      scope: ctx.scope,
+      name,
+      kind: "skill",
+      target: "codex",
+      action: "delete",
+      path: join(ctx.codexSkillsDir, name),
+    });
+  }
+  for (const item of scope.pruned) {
+    actions.push({
+      scope: ctx.scope,
+      name: item.name,
+      kind: item.kind,
+      target: item.target,
+      action: "delete",
+      path: item.path,
+    });
   }
 
-  return valid;
+  return actions;
 }
 
-async function discoverAgents(claudeDir: string): Promise<string[]> {
-  const agentsDir = join(claudeDir, "agents");
-  if (!existsSync(agentsDir)) return [];
+/**
+ * Whether a scope wrote, would write or could not reconcile anything.
+ */
+export function hasChanges(scope: ScopeResult): boolean {
+  return (
+    scope.toAgents.skills.length +
+      scope.toAgents.agents.length +
+      scope.targets.reduce(
+        (sum, target) =>
+          sum +
+          target.skills.length +
+          target.agents.length +
+          target.commands.length,
+        0
+      ) +
+      scope.toClaude.skills.length +
+      scope.toClaude.agents.length +
+      scope.toClaude.commands.length +
+      scope.migratedFromCodex.skills.length +
+      scope.deletedFromCodex.length +
+      scope.conflicts.length +
+      scope.pruned.length +
+      scope.errors.length >
+    0
+  );
+}
 
-  const entries = await readdir(agentsDir, { withFileTypes: true });
-  return entries
-    .filter((e) => e.isFile() && e.name.endsWith(".md"))
-    .map((e) => join(agentsDir, e.name));
+function emptyScopeResult(): ScopeResult {
+  return {
+    toAgents: { skills: [], agents: [] },
+    targets: [],
+    toClaude: { skills: [], agents: [], commands: [] },
+    migratedFromCodex: { skills: [] },
+    deletedFromCodex: [],
+    unchanged: [],
+    conflicts: [],
+    pruned: [],
+    errors: [],
+  };
 }
 
-async function syncProjectDocs(
-  cwd: string,
-  dryRun: boolean
-): Promise<SyncedDoc[]> {
-  const claudePath = join(cwd, "CLAUDE.md");
-  const agentsPath = join(cwd, "AGENTS.md");
-
-  const claudeExists = existsSync(claudePath);
-  const agentsExists = existsSync(agentsPath);
-
-  if (!claudeExists && !agentsExists) return [];
-
-  let sourcePath: string;
-  let destPath: string;
-
-  if (claudeExists && agentsExists) {
-    const [claudeStat, agentsStat] = await Promise.all([
-      stat(claudePath),
-      stat(agentsPath),
-    ]);
-
-    if (claudeStat.mtimeMs === agentsStat.mtimeMs) {
-      sourcePath = claudePath;
-      destPath = agentsPath;
-    } else if (claudeStat.mtimeMs > agentsStat.mtimeMs) {
-      sourcePath = claudePath;
-      destPath = agentsPath;
+interface ScopeSettings {
+  directions: Required<SyncDirections>;
+  prune: boolean;
+  isSelected: (name: string) => boolean;
+  resolveConflict?: ConflictResolver;
+}
+
+async function syncScope(
+  ctx: AdapterContext,
+  adapters: SyncAdapter[],
+  manifest: Manifest,
+  settings: ScopeSettings
+): Promise<ScopeResult> {
+  const { directions, prune, isSelected, resolveConflict } = settings;
+  const { dryRun } = ctx;
+  const result = emptyScopeResult();
+
+  const outputsFor = (
+    adapter: SyncAdapter
+  ): ScopeResult["toAgents"] | TargetSync => {
+    if (adapter.id === "agents") return result.toAgents;
+    let entry = result.targets.find((t) => t.target === adapter.id);
+    if (!entry) {
+      entry = {
+        target: adapter.id,
+        label: adapter.label,
+        skills: [],
+        agents: [],
+        commands: [],
+      };
+      result.targets.push(entry);
+    }
+    return entry;
+  };
+
+  const pushToClaude = (item: SyncedClaudeItem, target: string) => {
+    if (item.action === "unchanged") {
+      result.unchanged.push({ name: item.name, kind: item.kind, target });
+    } else if (item.kind === "agent") {
+      result.toClaude.agents.push(item);
+    } else if (item.kind === "command") {
+      result.toClaude.commands.push(item);
     } else {
-      sourcePath = agentsPath;
-      destPath = claudePath;
+      result.toClaude.skills.push(item);
     }
-  } else if (claudeExists) {
-    sourcePath = claudePath;
-    destPath = agentsPath;
-  } else {
-    sourcePath = agentsPath;
-    destPath = claudePath;
-  }
+  };
+
+  const pushOutput = (
+    adapter: SyncAdapter,
+    kind: ItemKind,
+    synced: SyncedSkill
+  ) => {
+    if (synced.action === "unchanged") {
+      result.unchanged.push({ name: synced.name, kind, target: adapter.id });
+      return;
+    }
+    const outputs = outputsFor(adapter);
+    if (kind === "agent") {
+      outputs.agents.push(synced);
+    } else if (kind === "command" && "commands" in outputs) {
+      outputs.commands.push(synced);
+    } else {
+      outputs.skills.push(synced);
+    }
+  };
 
-  const sourceContent = await readFile(sourcePath, "utf-8");
-  const destExists = existsSync(destPath);
+  const claudeItems = (await discoverClaudeItems(ctx.claudeDir)).filter(
+    (item) => isSelected(item.name)
+  );
 
-  if (destExists) {
-    const destContent = await readFile(destPath, "utf-8");
-    if (destContent === sourceContent) return [];
-  }
+  // Step 1: Claude → targets (overwrites by name unless the target changed)
+  for (const adapter of adapters) {
+    if (!adapter.transformOut || !adapter.outputPath) continue;
+    const entries = manifestEntries(manifest, adapter.id);
 
-  if (!dryRun) {
-    await Bun.write(destPath, sourceContent);
+    for (const item of claudeItems) {
+      if (!adapter.capabilities[CAPABILITIES[item.kind]]) continue;
+      const outPath = adapter.outputPath(item.name, ctx);
+      try {
+        const [claudeHash, targetHash] = await Promise.all([
+          hashPath(item.path),
+          hashPath(outPath),
+        ]);
+        let change = detectChange(entries[item.name], claudeHash, targetHash);
+        if (change === "both" && resolveConflict) {
+          const claudeFile = mainFile(item.path);
+          const targetFile = mainFile(outPath);
+          const choice = await resolveConflict({
+            name: item.name,
+            kind: item.kind,
+            target: adapter.id,
+            claudeFile,
+            targetFile,
+            ...(await renderConflictSides(
+              claudeFile,
+              targetFile,
+              ctx.rules ?? DEFAULT_RULES,
+              adapter.id
+            )),
+          });
+          if (choice !== "skip") change = choice;
+        }
+        // Both sides still match the last sync, but rules, config or the
+        // version header can still change the output. The item is rendered
+        // again and only files that differ from the disk are written.
+        if (change === "none") change = "claude";
+        if (change === "both") {
+          result.conflicts.push({
+            name: item.name,
+            kind: item.kind,
+            target: adapter.id,
+            reason: "both-changed",
+            claudePath: item.path,
+            targetPath: outPath,
+          });
+          continue;
+        }
+        if (change === "target") {
+          if (!directions.toClaude || !adapter.transformIn) continue;
+          const synced = await adapter.transformIn(
+            { name: item.name, path: outPath },
+            ctx,
+            { overwrite: true, kind: item.kind }
+          );
+          if (synced) pushToClaude(synced, adapter.id);
+        } else {
+          if (!directions.toAgents) continue;
+          const synced = await adapter.transformOut(item, ctx);
+          if (synced) pushOutput(adapter, item.kind, synced);
+        }
+        if (!dryRun) {
+          await recordEntry(
+            manifest,
+            adapter.id,
+            item.name,
+            item.kind,
+            item.path,
+            outPath
+          );
+        }
+      } catch (err) {
+        result.errors.push({
+          name: item.name,
+          source: item.path,
+          message: String(err),
+        });
+      }
+    }
   }
 
-  return [
-    {
-      name: basename(destPath),
-      sourcePath,
-      outputPath: destPath,
-      action: destExists ? "updated" : "created",
-    },
-  ];
-}
+  // Track names synced from Claude
+  const claudeNames = new Set(claudeItems.map((item) => item.name));
+  const claimed = new Set(claudeNames);
+
+  // Items we generated whose Claude source is gone must not come back
+  // from a target; with prune enabled they are removed there as well
+  for (const adapter of adapters) {
+    const entries = manifestEntries(manifest, adapter.id);
+    for (const [name, entry] of Object.entries(entries)) {
+      if (!isSelected(name)) continue;
+      if (claudeNames.has(name) || existsSync(entry.sourcePath)) continue;
+      claimed.add(name);
+
+      const targetHash = await hashPath(entry.outputPath);
+      if (!targetHash) {
+        if (!dryRun) delete entries[name];
+        continue;
+      }
+      if (!prune) continue;
 
-async function migrateCodexToAgents(
-  codexSkillsDir: string,
-  agentsSkillsDir: string,
-  excludeNames: Set<string>,
-  dryRun: boolean,
-  cleanup: boolean
-): Promise<{ migrated: SyncedSkill[]; deleted: string[] }> {
-  const codexSkillDirs = await discoverSkillDirs(codexSkillsDir);
-  const migrated: SyncedSkill[] = [];
-  const deleted: string[] = [];
-
-  for (const dir of codexSkillDirs) {
-    const name = basename(dir);
-    if (excludeNames.has(name)) {
-      // Already synced from Claude, just cleanup if enabled
-      if (cleanup && !dryRun) {
-        await Bun.$`rm -rf ${dir}`;
-        deleted.push(name);
-      } else if (cleanup) {
-        deleted.push(name);
+      if (targetHash !== entry.targetHash) {
+        result.conflicts.push({
+          name,
+          kind: entry.kind,
+          target: adapter.id,
+          reason: "deleted-in-claude",
+          claudePath: entry.sourcePath,
+          targetPath: entry.outputPath,
+        });
+        continue;
+      }
+
+      try {
+        recordDelete(entry.outputPath);
+        if (!dryRun) {
+          await backupPath(entry.outputPath);
+          await Bun.$`rm -rf ${entry.outputPath}`;
+          delete entries[name];
+        }
+        result.pruned.push({
+          name,
+          kind: entry.kind,
+          target: adapter.id,
+          path: entry.outputPath,
+        });
+      } catch (err) {
+        result.errors.push({
+          name,
+          source: entry.outputPath,
+          message: String(err),
+        });
       }
-      continue;
     }
+  }
 
-    // Migrate to .agents (copy the skill directory)
-    const outDir = join(agentsSkillsDir, name);
-    const files: string[] = [];
-
-    if (!dryRun) {
-      await mkdir(outDir, { recursive: true });
-
-      // Copy all files from codex skill dir to agents skill dir
-      const entries = await readdir(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        if (entry.isFile()) {
-          const src = join(dir, entry.name);
-          const dest = join(outDir, entry.name);
-          await copyFile(src, dest);
-          files.push(dest);
-        } else if (entry.isDirectory()) {
-          // Copy subdirectories (like scripts/)
-          const subDir = join(dir, entry.name);
-          const outSubDir = join(outDir, entry.name);
-          await mkdir(outSubDir, { recursive: true });
-          const subEntries = await readdir(subDir, { withFileTypes: true });
-          for (const subEntry of subEntries) {
-            if (subEntry.isFile()) {
-              const src = join(subDir, subEntry.name);
-              const dest = join(outSubDir, subEntry.name);
-              await copyFile(src, dest);
-              files.push(dest);
-            }
+  // Step 2: legacy targets → Agents (migration, additive only)
+  if (directions.fromCodex) {
+    for (const adapter of adapters) {
+      if (!adapter.migrate) continue;
+      try {
+        const migration = await adapter.migrate(ctx, claimed, isSelected);
+        for (const skill of migration.migrated) {
+          if (skill.action === "unchanged") {
+            result.unchanged.push({
+              name: skill.name,
+              kind: "skill",
+              target: "agents",
+            });
+          } else {
+            result.migratedFromCodex.skills.push(skill);
           }
         }
+        result.deletedFromCodex.push(...migration.deleted);
+
+        // Add migrated names to the set for step 3
+        for (const skill of migration.migrated) {
+          claimed.add(skill.name);
+        }
+      } catch (err) {
+        result.errors.push({
+          name: adapter.id,
+          source: ctx.codexSkillsDir,
+          message: String(err),
+        });
       }
-    } else {
-      files.push(join(outDir, "SKILL.md"));
     }
+  }
 
-    migrated.push({ name, outputPath: outDir, files });
-
-    // Cleanup from codex
-    if (cleanup && !dryRun) {
-      await Bun.$`rm -rf ${dir}`;
-      deleted.push(name);
-    } else if (cleanup) {
-      deleted.push(name);
+  // Step 3: targets → Claude (additive only, skip existing)
+  if (directions.toClaude) {
+    for (const adapter of adapters) {
+      if (!adapter.transformIn || !adapter.capabilities.toClaude) continue;
+      // Discover after migration so migrated items are included
+      const targetItems = await adapter.discover(ctx);
+      // Claimed names can land under another file name in the target
+      const claimedPaths = new Set(
+        [...claimed].map((name) => adapter.outputPath?.(name, ctx))
+      );
+      for (const targetItem of targetItems) {
+        const { name } = targetItem;
+        if (claimed.has(name) || claimedPaths.has(targetItem.path)) continue;
+        if (!isSelected(name)) continue;
+        try {
+          const synced = await adapter.transformIn(targetItem, ctx);
+          if (!synced) continue;
+          pushToClaude(synced, adapter.id);
+          claimed.add(name);
+          if (!dryRun) {
+            await recordEntry(
+              manifest,
+              adapter.id,
+              name,
+              synced.kind,
+              synced.outputPath,
+              targetItem.path
+            );
+          }
+        } catch (err) {
+          result.errors.push({
+            name,
+            source: targetItem.path,
+            message: String(err),
+          });
+        }
+      }
     }
   }
 
-  return { migrated, deleted };
+  return result;
 }
 
-export async function sync(options: SyncOptions): Promise<SyncResult> {
+export interface ScopeRun {
+  ctx: AdapterContext;
+  adapters: SyncAdapter[];
+  manifestPath: string;
+}
+
+function scopeSettings(
+  options: SyncOptions,
+  isSelected: (name: string) => boolean = () => true
+): ScopeSettings {
+  const {
+    directions = {},
+    prune = false,
+    include,
+    exclude,
+    resolveConflict,
+  } = options;
+  return {
+    directions: {
+      toAgents: directions.toAgents ?? true,
+      fromCodex: directions.fromCodex ?? true,
+      toClaude: directions.toClaude ?? true,
+    },
+    prune,
+    isSelected: (name) =>
+      isSelected(name) && matchesFilters(name, include, exclude),
+    resolveConflict,
+  };
+}
+
+/**
+ * Contexts for the scopes a run covers: the global setup and, with syncLocal,
+ * the project at the git root of cwd.
+ */
+export async function planScopes(options: SyncOptions): Promise<ScopeRun[]> {
   const {
     claudeDir,
     agentsSkillsDir,
@@ -219,125 +706,192 @@ export async function sync(options: SyncOptions): Promise<SyncResult> {
     syncGlobal = true,
     syncLocal = true,
     cleanupCodex = true,
+    manifestPath = defaultManifestPath(agentsSkillsDir),
+    rules,
+    targets,
+    projectRoot,
+    link,
   } = options;
 
-  const toAgentsSkills: SyncedSkill[] = [];
-  const toAgentsAgents: SyncedAgent[] = [];
-  const toClaudeSkills: SyncedClaudeItem[] = [];
-  const toClaudeAgents: SyncedClaudeItem[] = [];
-  let migratedSkills: SyncedSkill[] = [];
-  let deletedFromCodex: string[] = [];
-  const errors: SyncError[] = [];
+  const adapters = resolveAdapters(targets);
+  const runs: ScopeRun[] = [];
 
   if (syncGlobal) {
-    const claudeSkillsDir = join(claudeDir, "skills");
+    runs.push({
+      ctx: {
+        scope: "global",
+        root: homedir(),
+        claudeDir,
+        agentsSkillsDir,
+        codexSkillsDir,
+        dryRun,
+        rules,
+        cleanupCodex,
+        link,
+      },
+      adapters: adapters.filter((adapter) =>
+        adapter.capabilities.scopes.includes("global")
+      ),
+      manifestPath,
+    });
+  }
 
-    const claudeSkillDirs = await discoverSkillDirs(claudeSkillsDir);
-    const claudeAgentPaths = await discoverAgents(claudeDir);
-    const agentsSkillDirs = await discoverSkillDirs(agentsSkillsDir);
+  if (syncLocal) {
+    const root = projectRoot ?? (await findProjectRoot(cwd));
+    const projectClaudeDir = join(root, ".claude");
+    // Running from $HOME would sync the global directories twice
+    if (projectClaudeDir !== claudeDir && existsSync(projectClaudeDir)) {
+      runs.push({
+        ctx: {
+          scope: "project",
+          root,
+          claudeDir: projectClaudeDir,
+          agentsSkillsDir: join(root, ".agents", "skills"),
+          codexSkillsDir: join(root, ".codex", "skills"),
+          dryRun,
+          rules,
+          cleanupCodex,
+          link,
+        },
+        adapters: adapters.filter((adapter) =>
+          adapter.capabilities.scopes.includes("project")
+        ),
+        manifestPath: projectManifestPath(agentsSkillsDir, root),
+      });
+    }
+  }
 
-    const claudeSkillNames = new Set(claudeSkillDirs.map((dir) => basename(dir)));
-    const claudeAgentNames = new Set(
-      claudeAgentPaths.map((path) => basename(path, ".md"))
-    );
+  return runs;
+}
 
-    // Step 1: Claude → Agents (overwrites by name)
-    for (const dir of claudeSkillDirs) {
-      try {
-        const result = await transformSkill(dir, agentsSkillsDir, dryRun);
-        if (result) toAgentsSkills.push(result);
-      } catch (err) {
-        errors.push({
-          name: basename(dir),
-          source: dir,
-          message: String(err),
-        });
-      }
-    }
+async function runScope(
+  run: ScopeRun,
+  settings: ScopeSettings
+): Promise<ScopeResult> {
+  const manifest = await loadManifest(run.manifestPath);
+  const result = await syncScope(run.ctx, run.adapters, manifest, settings);
+  if (!run.ctx.dryRun) await saveManifest(run.manifestPath, manifest);
+  return result;
+}
 
-    for (const path of claudeAgentPaths) {
-      const name = basename(path, ".md");
-      if (claudeSkillNames.has(name)) continue;
-      try {
-        const result = await transformAgent(path, agentsSkillsDir, dryRun);
-        if (result) toAgentsAgents.push(result);
-      } catch (err) {
-        errors.push({
-          name,
-          source: path,
-          message: String(err),
-        });
-      }
-    }
+/**
+ * Re-run the transforms of a single item within one scope.
+ */
+export function syncItem(
+  run: ScopeRun,
+  name: string,
+  options: SyncOptions
+): Promise<ScopeResult> {
+  return runScope(
+    run,
+    scopeSettings(options, (candidate) => candidate === name)
+  );
+}
 
-    // Track names synced from Claude
-    const claudeNames = new Set([...claudeSkillNames, ...claudeAgentNames]);
+/**
+ * Record snapshots of everything `fn` overwrites, unless this is a dry run
+ * or backups are disabled. Returns the run id next to the value.
+ */
+export async function withBackups<T>(
+  options: SyncOptions,
+  fn: () => Promise<T>
+): Promise<{ value: T; runId: string | null }> {
+  const {
+    dryRun,
+    agentsSkillsDir,
+    backupDir = defaultBackupDir(agentsSkillsDir),
+    keepBackups = DEFAULT_KEEP_BACKUPS,
+  } = options;
+  if (dryRun || keepBackups <= 0) return { value: await fn(), runId: null };
+
+  beginRun(backupDir);
+  try {
+    const value = await fn();
+    return { value, runId: await endRun(keepBackups) };
+  } catch (err) {
+    await endRun(keepBackups);
+    throw err;
+  }
+}
 
-    // Step 2: Codex → Agents (migration, additive only)
-    if (existsSync(codexSkillsDir)) {
-      const migration = await migrateCodexToAgents(
-        codexSkillsDir,
-        agentsSkillsDir,
-        claudeNames,
-        dryRun,
-        cleanupCodex
-      );
-      migratedSkills = migration.migrated;
-      deletedFromCodex = migration.deleted;
+async function syncAll(
+  options: SyncOptions
+): Promise<Omit<SyncResult, "runId">> {
+  const settings = scopeSettings(options);
 
-      // Add migrated names to the set for step 3
-      for (const skill of migratedSkills) {
-        claudeNames.add(skill.name);
-      }
+  let scope = emptyScopeResult();
+  let project: ProjectScopeResult | null = null;
+  const files: FileAction[] = [];
+
+  for (const run of await planScopes(options)) {
+    const scoped = await runScope(run, settings);
+    files.push(...fileActions(scoped, run.ctx));
+    if (run.ctx.scope === "global") {
+      scope = scoped;
+    } else {
+      project = { ...scoped, root: run.ctx.root };
     }
+  }
 
-    // Step 3: Agents → Claude (additive only, skip existing)
-    // Refresh agents skill dirs to include any migrated items
-    const updatedAgentsSkillDirs = await discoverSkillDirs(agentsSkillsDir);
-    for (const dir of updatedAgentsSkillDirs) {
-      const name = basename(dir);
-      if (claudeNames.has(name)) continue;
-      try {
-        const result = await transformCodexSkillToClaude(
-          dir,
-          join(claudeDir, "skills"),
-          join(claudeDir, "agents"),
-          dryRun
-        );
-        if (result) {
-          if (result.kind === "agent") {
-            toClaudeAgents.push(result);
-          } else {
-            toClaudeSkills.push(result);
-          }
-          claudeNames.add(name);
-        }
-      } catch (err) {
-        errors.push({
-          name,
-          source: dir,
-          message: String(err),
-        });
-      }
+  const { docs, conflicts: docConflicts } =
+    options.syncLocal === false
+      ? { docs: [], conflicts: [] }
+      : await syncDocs(options);
+  const globalDocs =
+    options.syncGlobal === false
+      ? { docs: [], conflicts: [] }
+      : await syncGlobalDocs(options);
+  docConflicts.push(...globalDocs.conflicts);
+  for (const [scope, synced] of [
+    ["project", docs],
+    ["global", globalDocs.docs],
+  ] as const) {
+    for (const doc of synced) {
+      files.push({
+        scope,
+        name: doc.name,
+        kind: "doc",
+        target: doc.name,
+        action: doc.action === "removed" ? "delete" : "write",
+        path: doc.outputPath,
+      });
     }
   }
 
-  const docs = syncLocal ? await syncProjectDocs(cwd, dryRun) : [];
+  const mcp = await syncMcp(options);
+  scope.errors.push(...mcp.errors);
+  for (const server of mcp.servers) {
+    files.push({
+      scope: server.scope,
+      name: server.name,
+      kind: "mcp",
+      target: server.target,
+      action: "write",
+      path: server.outputPath,
+    });
+  }
 
   return {
-    toAgents: {
-      skills: toAgentsSkills,
-      agents: toAgentsAgents,
-    },
-    toClaude: {
-      skills: toClaudeSkills,
-      agents: toClaudeAgents,
-    },
-    migratedFromCodex: {
-      skills: migratedSkills,
-    },
-    deletedFromCodex,
+    ...scope,
+    project,
     docs,
-    errors,
+    globalDocs: globalDocs.docs,
+    docConflicts,
+    mcp: mcp.servers,
+    mcpConflicts: mcp.conflicts,
+    files,
   };
 }
+
+export async function sync(options: SyncOptions): Promise<SyncResult> {
+  // Dry runs keep what they would write in memory, so it can be diffed
+  if (options.dryRun) beginPreview();
+  try {
+    const { value, runId } = await withBackups(options, () => syncAll(options));
+    const planned = endPreview();
+    if (!options.dryRun || !options.diff) return { ...value, runId };
+    return { ...value, runId, diffs: await previewDiffs(value.files, planned) };
+  } finally {
+    endPreview();
+  }
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { backupPath, beginRun, endRun, listRuns, undoRun } from "../backup.ts";
+
+let root: string;
+let store: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "sync-agents-backup-"));
+  store = join(root, "backups");
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+// A run that overwrites `path` with `content`
+async function write(path: string, content: string): Promise<void> {
+  await backupPath(path);
+  await Bun.write(path, content);
+}
+
+describe("backup runs", () => {
+  test("undo restores overwritten files and removes created ones", async () => {
+    const kept = join(root, "kept.md");
+    const created = join(root, "created.md");
+    await Bun.write(kept, "before\n");
+
+    beginRun(store);
+    await write(kept, "after\n");
+    await write(created, "new\n");
+    const runId = await endRun();
+    expect(runId).not.toBeNull();
+
+    const undone = await undoRun(store);
+    expect(undone.id).toBe(runId!);
+    expect(await readFile(kept, "utf-8")).toBe("before\n");
+    expect(existsSync(created)).toBe(false);
+  });
+
+  test("keeps the first snapshot of a path written twice", async () => {
+    const path = join(root, "twice.md");
+    await Bun.write(path, "v1\n");
+
+    beginRun(store);
+    await write(path, "v2\n");
+    await write(path, "v3\n");
+    await endRun();
+
+    await undoRun(store);
+    expect(await readFile(path, "utf-8")).toBe("v1\n");
+  });
+
+  test("records the undo as a run that can be undone too", async () => {
+    const path = join(root, "file.md");
+    await Bun.write(path, "v1\n");
+    beginRun(store);
+    await write(path, "v2\n");
+    const runId = await endRun();
+
+    await undoRun(store);
+    const [undo, run] = await listRuns(store);
+    expect(undo).toMatchObject({ command: "undo", undoes: runId! });
+    expect(run).toMatchObject({ id: runId!, undoneBy: undo!.id });
+
+    await undoRun(store, undo!.id);
+    expect(await readFile(path, "utf-8")).toBe("v2\n");
+  });
+
+  test("keeps no run when nothing or only the manifest was written", async () => {
+    beginRun(store);
+    expect(await endRun()).toBeNull();
+
+    const manifest = join(root, ".sync-agents.json");
+    await Bun.write(manifest, "{}\n");
+    beginRun(store);
+    await backupPath(manifest, { internal: true });
+    await Bun.write(manifest, '{"version":1}\n');
+    expect(await endRun()).toBeNull();
+    expect(await listRuns(store)).toEqual([]);
+  });
+
+  test("drops the oldest runs beyond the limit", async () => {
+    const ids: string[] = [];
+    for (let n = 0; n < 3; n++) {
+      beginRun(store);
+      await write(join(root, `file-${n}.md`), `${n}\n`);
+      ids.push((await endRun(2))!);
+    }
+    expect((await listRuns(store)).map((run) => run.id)).toEqual([
+      ids[2]!,
+      ids[1]!,
+    ]);
+  });
+
+  test("fails when there is nothing to undo", async () => {
+    await expect(undoRun(store)).rejects.toThrow("No sync run left to undo");
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  exportBundle,
+  importBundle,
+  type BundleItem,
+  type BundleOptions,
+} from "../bundle.ts";
+import { hashPath } from "../manifest.ts";
+
+const SKILL = "---\nname: review\ndescription: Review\n---\n\nReview it.\n";
+
+let root: string;
+let options: BundleOptions;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "sync-agents-bundle-"));
+  options = {
+    claudeDir: join(root, ".claude"),
+    agentsSkillsDir: join(root, ".agents/skills"),
+    codexSkillsDir: join(root, ".codex/skills"),
+    dryRun: false,
+    cwd: root,
+    syncLocal: false,
+    targets: ["agents"],
+  };
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+// Pack `files` with a manifest listing `items`, as a hand-made bundle would
+async function pack(
+  files: Record<string, string>,
+  items: Omit<BundleItem, "frontmatter">[]
+): Promise<string> {
+  const staging = join(root, "staging");
+  for (const [path, content] of Object.entries(files)) {
+    await Bun.write(join(staging, path), content);
+  }
+  const manifest = {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    createdBy: "test",
+    items: items.map((item) => ({ ...item, frontmatter: {} })),
+  };
+  await Bun.write(join(staging, "manifest.json"), JSON.stringify(manifest));
+  const bundle = join(root, "bundle.tgz");
+  await Bun.$`tar -czf ${bundle} -C ${staging} .`.quiet();
+  return bundle;
+}
+
+describe("bundle round trip", () => {
+  test("imports an exported skill into another setup", async () => {
+    await Bun.write(join(options.claudeDir, "skills/review/SKILL.md"), SKILL);
+    const exported = await exportBundle("out.tgz", options);
+    expect(exported.items.map((item) => item.name)).toEqual(["review"]);
+
+    const other = { ...options, claudeDir: join(root, "other/.claude") };
+    const result = await importBundle("out.tgz", other);
+    expect(result.items).toMatchObject([{ name: "review", action: "created" }]);
+    expect(
+      await readFile(join(other.claudeDir, "skills/review/SKILL.md"), "utf-8")
+    ).toBe(SKILL);
+  });
+});
+
+describe("bundle entry validation", () => {
+  test.each([
+    ["..", "skills/.."],
+    ["../escape", "skills/../escape"],
+    ["review", "skills/../../escape"],
+    ["review", "agents/review.md"],
+  ])("rejects an item named %p at %p", async (name, path) => {
+    const bundle = await pack({ "skills/review/SKILL.md": SKILL }, [
+      { name, kind: "skill", path, hash: "" },
+    ]);
+    await expect(importBundle(bundle, options)).rejects.toThrow(
+      "Invalid bundle entry"
+    );
+    expect(existsSync(join(root, "escape"))).toBe(false);
+  });
+
+  test("skips items whose content doesn't match the manifest", async () => {
+    await Bun.write(join(root, "original/SKILL.md"), SKILL);
+    const hash = (await hashPath(join(root, "original")))!;
+    const bundle = await pack(
+      { "skills/review/SKILL.md": SKILL + "Tampered.\n" },
+      [{ name: "review", kind: "skill", path: "skills/review", hash }]
+    );
+    const result = await importBundle(bundle, options);
+    expect(result.items).toMatchObject([{ name: "review", action: "skipped" }]);
+    expect(existsSync(join(options.claudeDir, "skills/review"))).toBe(false);
+  });
+});
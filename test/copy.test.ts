@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import {
+  chmod,
+  lstat,
+  mkdtemp,
+  readFile,
+  readlink,
+  rm,
+  stat,
+  symlink,
+} from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { copyTree, removeStaleFiles } from "../adapters/copy.ts";
+
+let root: string;
+let src: string;
+let dest: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), "sync-agents-copy-"));
+  src = join(root, "src");
+  dest = join(root, "dest");
+  await Bun.write(join(src, "SKILL.md"), "Use the skill.\n");
+  await Bun.write(join(src, "scripts/run.sh"), "#!/bin/sh\necho hi\n");
+  await chmod(join(src, "scripts/run.sh"), 0o755);
+  await Bun.write(join(src, "assets/logo.png"), new Uint8Array([0, 1, 255]));
+  await symlink("../SKILL.md", join(src, "assets/readme.md"));
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("copyTree", () => {
+  test("copies nested files and binaries, keeping file modes", async () => {
+    await copyTree(src, dest);
+    expect(await readFile(join(dest, "assets/logo.png"))).toEqual(
+      Buffer.from([0, 1, 255])
+    );
+    expect((await stat(join(dest, "scripts/run.sh"))).mode & 0o777).toBe(0o755);
+  });
+
+  test("recreates links with the same target instead of following them", async () => {
+    await copyTree(src, dest);
+    const link = join(dest, "assets/readme.md");
+    expect((await lstat(link)).isSymbolicLink()).toBe(true);
+    expect(await readlink(link)).toBe("../SKILL.md");
+  });
+
+  test("reports files as created, then unchanged, then updated", async () => {
+    const actions = async () =>
+      Object.fromEntries(
+        (await copyTree(src, dest)).map((file) => [
+          file.path.slice(dest.length + 1),
+          file.action,
+        ])
+      );
+    expect(Object.values(await actions())).toEqual([
+      "created",
+      "created",
+      "created",
+      "created",
+    ]);
+    expect(new Set(Object.values(await actions()))).toEqual(
+      new Set(["unchanged"])
+    );
+
+    await chmod(join(src, "scripts/run.sh"), 0o700);
+    expect((await actions())["scripts/run.sh"]).toBe("updated");
+  });
+
+  test("maps paths and rewrites markdown only", async () => {
+    await Bun.write(join(src, "references/guide.md"), "Read this.\n");
+    await copyTree(src, dest, {
+      mapPath: (path) => (path === "SKILL.md" ? null : path),
+      transformMarkdown: (content) => content.toUpperCase(),
+    });
+    expect(existsSync(join(dest, "SKILL.md"))).toBe(false);
+    expect(await readFile(join(dest, "references/guide.md"), "utf-8")).toBe(
+      "READ THIS.\n"
+    );
+    expect(await readFile(join(dest, "scripts/run.sh"), "utf-8")).toBe(
+      "#!/bin/sh\necho hi\n"
+    );
+  });
+
+  test("writes nothing in a dry run", async () => {
+    const files = await copyTree(src, dest, { dryRun: true });
+    expect(files).toHaveLength(4);
+    expect(existsSync(dest)).toBe(false);
+  });
+});
+
+describe("removeStaleFiles", () => {
+  test("removes files the latest copy didn't write", async () => {
+    await copyTree(src, dest);
+    await rm(join(src, "assets/logo.png"));
+    const files = await copyTree(src, dest);
+
+    const stale = join(dest, "assets/logo.png");
+    expect(await removeStaleFiles(dest, files)).toEqual([stale]);
+    expect(existsSync(stale)).toBe(false);
+  });
+});
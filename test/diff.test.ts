@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { colorizeDiff, unifiedDiff } from "../diff.ts";
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("unifiedDiff", () => {
+  test("is empty when the texts are equal", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  test("labels the sides and shows context around a change", () => {
+    const from = lines(10);
+    const to = from.replace("line 5\n", "line five\n");
+    expect(unifiedDiff(from, to, { fromLabel: "old", toLabel: "new" })).toBe(
+      [
+        "--- old",
+        "+++ new",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+      ].join("\n")
+    );
+  });
+
+  test("splits changes far apart into separate hunks", () => {
+    const from = lines(20);
+    const to = from
+      .replace("line 2\n", "")
+      .replace("line 19\n", "line 19\nnew\n");
+    const hunks = unifiedDiff(from, to, { context: 1 })
+      .split("\n")
+      .filter((line) => line.startsWith("@@"));
+    expect(hunks).toEqual(["@@ -1,3 +1,2 @@", "@@ -19,2 +18,3 @@"]);
+  });
+
+  test("diffs against an empty text", () => {
+    expect(unifiedDiff("", "a\n")).toBe("--- a\n+++ b\n@@ -0,0 +1,1 @@\n+a");
+    expect(unifiedDiff("a\n", "")).toBe("--- a\n+++ b\n@@ -1,1 +0,0 @@\n-a");
+  });
+});
+
+describe("colorizeDiff", () => {
+  test("colors headers, hunks, removals and additions", () => {
+    expect(colorizeDiff("--- a\n@@ -1 +1 @@\n-x\n+y\n z")).toBe(
+      [
+        "\x1b[1m--- a\x1b[0m",
+        "\x1b[36m@@ -1 +1 @@\x1b[0m",
+        "\x1b[31m-x\x1b[0m",
+        "\x1b[32m+y\x1b[0m",
+        " z",
+      ].join("\n")
+    );
+  });
+});
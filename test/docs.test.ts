@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { lstat, mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { collapseImports, expandImports, syncDocs } from "../docs.ts";
+import type { SyncOptions } from "../sync.ts";
+
+let root: string;
+let claudePath: string;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "sync-agents-docs-"));
+  claudePath = join(root, "CLAUDE.md");
+  await Bun.write(join(root, "docs/style.md"), "Use tabs.\n\n@nested.md\n");
+  await Bun.write(join(root, "docs/nested.md"), "Nested rule.\n");
+  await Bun.write(join(root, "loop.md"), "Loop start\n@loop.md\n");
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("expandImports", () => {
+  test("inlines standalone imports between markers, nested ones included", async () => {
+    expect(await expandImports("# Rules\n\n@docs/style.md\n", claudePath)).toBe(
+      [
+        "# Rules",
+        "",
+        "<!-- @docs/style.md -->",
+        "Use tabs.",
+        "",
+        "<!-- @nested.md -->",
+        "Nested rule.",
+        "<!-- /@nested.md -->",
+        "<!-- /@docs/style.md -->",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("links imports inside a sentence", async () => {
+    expect(
+      await expandImports("See @docs/style.md for style.", claudePath)
+    ).toBe("See [@docs/style.md](docs/style.md) for style.");
+  });
+
+  test("leaves missing files, code spans and fences alone", async () => {
+    const content = "@missing.md\n`@docs/style.md`\n```\n@docs/style.md\n```";
+    expect(await expandImports(content, claudePath)).toBe(content);
+  });
+
+  test("links a cycle instead of inlining it again", async () => {
+    expect(await expandImports("@loop.md", claudePath)).toBe(
+      [
+        "<!-- @loop.md -->",
+        "Loop start",
+        "[@loop.md](loop.md)",
+        "<!-- /@loop.md -->",
+      ].join("\n")
+    );
+  });
+});
+
+describe("collapseImports", () => {
+  test("turns expanded imports back into the original text", async () => {
+    const original =
+      "# Rules\n\n@docs/style.md\n\nSee @docs/style.md for style.\n";
+    const expanded = await expandImports(original, claudePath);
+    expect(collapseImports(expanded)).toBe(original);
+  });
+});
+
+describe("syncDocs", () => {
+  const options = (overrides: Partial<SyncOptions> = {}): SyncOptions => ({
+    claudeDir: join(root, "home/.claude"),
+    agentsSkillsDir: join(root, "home/.agents/skills"),
+    codexSkillsDir: join(root, "home/.codex/skills"),
+    dryRun: false,
+    projectRoot: root,
+    targets: ["agents"],
+    ...overrides,
+  });
+
+  test("replaces a linked AGENTS.md instead of writing through it", async () => {
+    await Bun.write(claudePath, "# Rules\n");
+    await syncDocs(options({ linkDocs: true }));
+    const agentsPath = join(root, "AGENTS.md");
+    expect((await lstat(agentsPath)).isSymbolicLink()).toBe(true);
+
+    await Bun.write(claudePath, "# Rules\n\n@docs/style.md\n");
+    await syncDocs(options());
+    expect(await readFile(claudePath, "utf-8")).toBe(
+      "# Rules\n\n@docs/style.md\n"
+    );
+    expect((await lstat(agentsPath)).isSymbolicLink()).toBe(false);
+    expect(await readFile(agentsPath, "utf-8")).toContain(
+      "<!-- @docs/style.md -->"
+    );
+  });
+
+  test("leaves a hand-written target doc alone and reports it", async () => {
+    const geminiPath = join(root, "GEMINI.md");
+    await Bun.write(claudePath, "# Rules\n");
+    await Bun.write(geminiPath, "# My Gemini notes\n");
+
+    const result = await syncDocs(options({ targets: ["gemini"] }));
+    expect(result.conflicts.map((conflict) => conflict.name)).toEqual([
+      "GEMINI.md",
+    ]);
+    expect(await readFile(geminiPath, "utf-8")).toBe("# My Gemini notes\n");
+
+    await rm(geminiPath);
+    await syncDocs(options({ targets: ["gemini"] }));
+    expect(await readFile(geminiPath, "utf-8")).toBe("# Rules\n");
+
+    // Generated files follow CLAUDE.md until someone edits them
+    await Bun.write(claudePath, "# Rules\n\nMore.\n");
+    await syncDocs(options({ targets: ["gemini"] }));
+    expect(await readFile(geminiPath, "utf-8")).toBe("# Rules\n\nMore.\n");
+
+    await Bun.write(geminiPath, "# Edited\n");
+    await Bun.write(claudePath, "# Rules\n");
+    const edited = await syncDocs(options({ targets: ["gemini"] }));
+    expect(edited.conflicts).toHaveLength(1);
+    expect(await readFile(geminiPath, "utf-8")).toBe("# Edited\n");
+  });
+});
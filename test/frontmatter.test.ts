@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import matter from "gray-matter";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  hasClaudeMetadata,
+  toAgentsFrontmatter,
+  toClaudeFrontmatter,
+} from "../adapters/frontmatter.ts";
+import { sync, type SyncOptions } from "../sync.ts";
+
+const AGENT = {
+  name: "reviewer",
+  description: "Reviews code",
+  tools: ["Read", "Grep"],
+  color: "blue",
+  model: "opus",
+};
+
+describe("toAgentsFrontmatter", () => {
+  test("moves Claude-only fields under metadata.claude", () => {
+    expect(toAgentsFrontmatter(AGENT)).toEqual({
+      name: "reviewer",
+      description: "Reviews code",
+      metadata: {
+        claude: { tools: ["Read", "Grep"], color: "blue", model: "opus" },
+      },
+    });
+  });
+
+  test("adds no metadata when every field is shared", () => {
+    const data = { name: "plain", description: "Plain" };
+    expect(toAgentsFrontmatter(data)).toEqual(data);
+    expect(hasClaudeMetadata(toAgentsFrontmatter(data))).toBe(false);
+  });
+});
+
+describe("toClaudeFrontmatter", () => {
+  test("restores the original fields", () => {
+    expect(toClaudeFrontmatter(toAgentsFrontmatter(AGENT))).toEqual(AGENT);
+  });
+
+  test("keeps fields and metadata added on the Agents side", () => {
+    const agents = toAgentsFrontmatter(AGENT);
+    agents.license = "MIT";
+    (agents.metadata as Record<string, unknown>).author = "team";
+    expect(toClaudeFrontmatter(agents)).toEqual({
+      ...AGENT,
+      license: "MIT",
+      metadata: { author: "team" },
+    });
+  });
+
+  test("leaves frontmatter without Claude metadata as it is", () => {
+    const data = { name: "x", metadata: { author: "team" } };
+    expect(toClaudeFrontmatter(data)).toEqual(data);
+  });
+});
+
+describe("agent round trip", () => {
+  let root: string;
+  let options: SyncOptions;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "sync-agents-frontmatter-"));
+    options = {
+      claudeDir: join(root, ".claude"),
+      agentsSkillsDir: join(root, ".agents/skills"),
+      codexSkillsDir: join(root, ".codex/skills"),
+      dryRun: false,
+      cwd: root,
+      syncLocal: false,
+      targets: ["agents"],
+    };
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("keeps every field when an edit comes back from Agents", async () => {
+    const claudeFile = join(options.claudeDir, "agents/reviewer.md");
+    await Bun.write(claudeFile, matter.stringify("Review the diff.\n", AGENT));
+    await sync(options);
+
+    const agentsFile = join(options.agentsSkillsDir, "reviewer/SKILL.md");
+    const agents = await readFile(agentsFile, "utf-8");
+    await Bun.write(agentsFile, agents.replace("the diff", "every diff"));
+    await sync(options);
+
+    const claude = matter(await readFile(claudeFile, "utf-8"));
+    expect(claude.data).toEqual(AGENT);
+    expect(claude.content.trim()).toBe("Review every diff.");
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  addSkills,
+  listSkills,
+  loadLockfile,
+  lockfilePath,
+  parseSource,
+  removeSkills,
+  updateSkills,
+  type InstallOptions,
+} from "../install.ts";
+
+describe("parseSource", () => {
+  test("makes local paths absolute", () => {
+    expect(parseSource("../skills#v1", "/work/project")).toEqual({
+      source: "/work/skills",
+      ref: "v1",
+    });
+  });
+
+  test("keeps URLs and scp-style remotes as given", () => {
+    expect(parseSource("https://example.com/skills.git", "/work")).toEqual({
+      source: "https://example.com/skills.git",
+      ref: undefined,
+    });
+    expect(parseSource("git@example.com:team/skills.git#main", "/")).toEqual({
+      source: "git@example.com:team/skills.git",
+      ref: "main",
+    });
+  });
+});
+
+describe("installed skills", () => {
+  let root: string;
+  let repo: string;
+  let options: InstallOptions;
+  let claudeSkill: string;
+  let agentsSkill: string;
+
+  async function commit(file: string, content: string): Promise<void> {
+    await Bun.write(join(repo, file), content);
+    await Bun.$`git add -A && git -c user.name=test -c user.email=test@example.com commit --quiet -m update`
+      .cwd(repo)
+      .quiet();
+  }
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "sync-agents-install-"));
+    repo = join(root, "repo");
+    options = {
+      claudeDir: join(root, ".claude"),
+      agentsSkillsDir: join(root, ".agents/skills"),
+      codexSkillsDir: join(root, ".codex/skills"),
+      dryRun: false,
+      cwd: root,
+      syncLocal: false,
+      targets: ["agents"],
+    };
+    claudeSkill = join(options.claudeDir, "skills/review");
+    agentsSkill = join(options.agentsSkillsDir, "review");
+    await Bun.$`git init --quiet ${repo}`.quiet();
+    await commit(
+      "skills/review/SKILL.md",
+      "---\nname: review\ndescription: Review\n---\n\nReview the diff.\n"
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("add copies the skill, locks it and syncs it", async () => {
+    const result = await addSkills("repo", options);
+    expect(result.skills).toMatchObject([
+      { name: "review", source: repo, action: "installed" },
+    ]);
+    expect(existsSync(join(claudeSkill, "SKILL.md"))).toBe(true);
+    expect(existsSync(join(agentsSkill, "SKILL.md"))).toBe(true);
+
+    const lockfile = await loadLockfile(lockfilePath(options.claudeDir));
+    expect(lockfile.skills.review).toMatchObject({
+      source: repo,
+      path: "skills/review",
+    });
+  });
+
+  test("add leaves a skill of the same name alone", async () => {
+    await Bun.write(join(claudeSkill, "SKILL.md"), "Mine.\n");
+    const result = await addSkills("repo", options);
+    expect(result.skills).toMatchObject([
+      { name: "review", action: "skipped" },
+    ]);
+    expect(await readFile(join(claudeSkill, "SKILL.md"), "utf-8")).toBe(
+      "Mine.\n"
+    );
+  });
+
+  test("update brings new commits in but keeps local edits", async () => {
+    await addSkills("repo", options);
+    await commit(
+      "skills/review/SKILL.md",
+      "---\nname: review\ndescription: Review\n---\n\nReview every diff.\n"
+    );
+    expect((await updateSkills([], options)).skills).toMatchObject([
+      { name: "review", action: "updated" },
+    ]);
+    expect(await readFile(join(agentsSkill, "SKILL.md"), "utf-8")).toContain(
+      "Review every diff."
+    );
+
+    await Bun.write(join(claudeSkill, "notes.md"), "Local notes.\n");
+    await commit("skills/review/extra.md", "Extra.\n");
+    expect((await updateSkills(["review"], options)).skills).toMatchObject([
+      { name: "review", action: "skipped" },
+    ]);
+    expect(await listSkills(options)).toMatchObject([
+      { name: "review", status: "modified" },
+    ]);
+  });
+
+  test("remove deletes the skill and its synced copy", async () => {
+    await addSkills("repo", options);
+    const result = await removeSkills(["review"], options);
+    expect(result.skills).toMatchObject([
+      { name: "review", action: "removed" },
+    ]);
+    expect(existsSync(claudeSkill)).toBe(false);
+    expect(existsSync(agentsSkill)).toBe(false);
+    expect(await listSkills(options)).toEqual([]);
+  });
+
+  test("rejects skills that weren't installed with add", async () => {
+    await expect(updateSkills(["other"], options)).rejects.toThrow(
+      "Not installed with add: other"
+    );
+  });
+});
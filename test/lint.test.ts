@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { lint, type LintOptions } from "../lint.ts";
+
+let root: string;
+let options: LintOptions;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "sync-agents-lint-"));
+  options = {
+    claudeDir: join(root, ".claude"),
+    agentsSkillsDir: join(root, ".agents/skills"),
+    codexSkillsDir: join(root, ".codex/skills"),
+    dryRun: false,
+    cwd: root,
+    syncLocal: false,
+  };
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("broken-link", () => {
+  test("takes hrefs that aren't valid escapes as written", async () => {
+    const skillDir = join(options.claudeDir, "skills/sale");
+    await Bun.write(
+      join(skillDir, "SKILL.md"),
+      "---\nname: sale\ndescription: Sale\n---\n\nSee [sale](50%-off.md) and [gone](100%-off.md).\n"
+    );
+    await Bun.write(join(skillDir, "50%-off.md"), "Half off.\n");
+
+    const result = await lint(options);
+    const broken = result.issues.filter(
+      (issue) => issue.rule === "broken-link"
+    );
+    expect(broken.map((issue) => issue.message)).toEqual([
+      'Link to missing file "100%-off.md"',
+    ]);
+  });
+});
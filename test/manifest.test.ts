@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { detectChange, hashPath, loadManifest } from "../manifest.ts";
+import { sync, type SyncOptions } from "../sync.ts";
+
+describe("detectChange", () => {
+  const base = { claudeHash: "a", targetHash: "b" };
+
+  test("lets Claude win without a base or a target", () => {
+    expect(detectChange(undefined, "a", "b")).toBe("claude");
+    expect(detectChange(base, "a", null)).toBe("claude");
+  });
+
+  test("tells which side changed since the last sync", () => {
+    expect(detectChange(base, "a", "b")).toBe("none");
+    expect(detectChange(base, "c", "b")).toBe("claude");
+    expect(detectChange(base, "a", "c")).toBe("target");
+    expect(detectChange(base, "c", "d")).toBe("both");
+  });
+
+  test("never reports identical sides as a conflict", () => {
+    expect(detectChange({ claudeHash: "a", targetHash: "a" }, "a", "a")).toBe(
+      "none"
+    );
+    expect(detectChange(base, "c", "c")).toBe("claude");
+  });
+});
+
+describe("sync", () => {
+  let root: string;
+  let options: SyncOptions;
+  let claudeFile: string;
+  let agentsFile: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "sync-agents-manifest-"));
+    options = {
+      claudeDir: join(root, ".claude"),
+      agentsSkillsDir: join(root, ".agents/skills"),
+      codexSkillsDir: join(root, ".codex/skills"),
+      dryRun: false,
+      cwd: root,
+      syncLocal: false,
+      targets: ["agents"],
+    };
+    claudeFile = join(options.claudeDir, "skills/notes/SKILL.md");
+    agentsFile = join(options.agentsSkillsDir, "notes/SKILL.md");
+    await Bun.write(
+      claudeFile,
+      "---\nname: notes\ndescription: Notes\n---\n\nTake notes.\n"
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("records both sides in the manifest", async () => {
+    await sync(options);
+    const manifest = await loadManifest(
+      join(root, ".agents/.sync-agents.json")
+    );
+    const entry = manifest.targets.agents?.notes;
+    expect(entry?.kind).toBe("skill");
+    expect(entry?.claudeHash).toBe(
+      (await hashPath(join(options.claudeDir, "skills/notes")))!
+    );
+    expect(entry?.targetHash).toBe(
+      (await hashPath(join(options.agentsSkillsDir, "notes")))!
+    );
+  });
+
+  test("brings back an item edited only in Agents", async () => {
+    await sync(options);
+    const agents = await readFile(agentsFile, "utf-8");
+    await Bun.write(
+      agentsFile,
+      agents.replace("Take notes.", "Take notes daily.")
+    );
+
+    const result = await sync(options);
+    expect(result.toClaude.skills.map((skill) => skill.name)).toEqual([
+      "notes",
+    ]);
+    expect(await readFile(claudeFile, "utf-8")).toContain("Take notes daily.");
+  });
+
+  test("reports an item edited on both sides and touches neither", async () => {
+    await sync(options);
+    const claude = (await readFile(claudeFile, "utf-8")).replace(
+      "Take notes.",
+      "Take short notes."
+    );
+    const agents = (await readFile(agentsFile, "utf-8")).replace(
+      "Take notes.",
+      "Take long notes."
+    );
+    await Bun.write(claudeFile, claude);
+    await Bun.write(agentsFile, agents);
+
+    const result = await sync(options);
+    expect(result.conflicts).toMatchObject([
+      { name: "notes", kind: "skill", reason: "both-changed" },
+    ]);
+    expect(await readFile(claudeFile, "utf-8")).toBe(claude);
+    expect(await readFile(agentsFile, "utf-8")).toBe(agents);
+  });
+});
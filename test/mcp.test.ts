@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import { toClaudeServer, toCodexServer, type McpServer } from "../mcp.ts";
+import { setTomlTable } from "../toml.ts";
+
+describe("toCodexServer", () => {
+  test("keeps command, args and env of a stdio server", () => {
+    expect(
+      toCodexServer({
+        type: "stdio",
+        command: "npx",
+        args: ["-y", "server"],
+        env: { TOKEN: "x" },
+      })
+    ).toEqual({ command: "npx", args: ["-y", "server"], env: { TOKEN: "x" } });
+  });
+
+  test("leaves empty args and env out", () => {
+    const table = toCodexServer({ command: "server", args: [], env: {} });
+    expect(setTomlTable("", ["mcp_servers", "local"], table, [])).toBe(
+      '[mcp_servers.local]\ncommand = "server"\n'
+    );
+  });
+
+  test("turns headers into http_headers", () => {
+    expect(
+      toCodexServer({
+        type: "http",
+        url: "https://example.com/mcp",
+        headers: { Authorization: "Bearer x" },
+      })
+    ).toEqual({
+      url: "https://example.com/mcp",
+      http_headers: { Authorization: "Bearer x" },
+    });
+  });
+});
+
+describe("toClaudeServer", () => {
+  test("brings a stdio server back", () => {
+    const server: McpServer = {
+      type: "stdio",
+      command: "npx",
+      args: ["-y", "server"],
+      env: { TOKEN: "x" },
+    };
+    expect(toClaudeServer(toCodexServer(server))).toEqual(server);
+  });
+
+  test("defaults args and env of a stdio server", () => {
+    expect(toClaudeServer({ command: "server" })).toEqual({
+      type: "stdio",
+      command: "server",
+      args: [],
+      env: {},
+    });
+  });
+
+  test("brings an http server back", () => {
+    const server: McpServer = {
+      type: "http",
+      url: "https://example.com/mcp",
+      headers: { Authorization: "Bearer x" },
+    };
+    expect(toClaudeServer(toCodexServer(server))).toEqual(server);
+  });
+
+  test("keeps an SSE server's transport and Claude-only fields", () => {
+    const previous: McpServer = {
+      type: "sse",
+      url: "https://example.com/sse",
+      oauth: { clientId: "id" },
+    };
+    expect(
+      toClaudeServer({ url: "https://example.com/events" }, previous)
+    ).toEqual({
+      type: "sse",
+      url: "https://example.com/events",
+      oauth: { clientId: "id" },
+    });
+  });
+
+  test("drops fields that moved to another transport", () => {
+    const previous: McpServer = {
+      type: "stdio",
+      command: "server",
+      args: [],
+      env: { TOKEN: "x" },
+    };
+    expect(
+      toClaudeServer({ url: "https://example.com/mcp" }, previous)
+    ).toEqual({ type: "http", url: "https://example.com/mcp" });
+  });
+});
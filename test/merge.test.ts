@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { mergeSections, sectionHashes, splitSections } from "../merge.ts";
+
+const BASE =
+  "# Title\n\nIntro\n\n## Setup\n\nInstall it.\n\n## Usage\n\nRun it.\n";
+
+describe("splitSections", () => {
+  test("concatenates back to the original text", () => {
+    const sections = splitSections(BASE);
+    expect(sections.map((s) => s.key)).toEqual([
+      "# Title",
+      "## Setup",
+      "## Usage",
+    ]);
+    expect(sections.map((s) => s.text).join("")).toBe(BASE);
+  });
+
+  test("keeps text before the first heading under an empty key", () => {
+    const sections = splitSections("Preamble\n\n# Title\n");
+    expect(sections[0]).toEqual({ key: "", text: "Preamble\n\n" });
+  });
+
+  test("numbers repeated headings", () => {
+    const keys = splitSections("## Notes\na\n## Notes\nb\n").map((s) => s.key);
+    expect(keys).toEqual(["## Notes", "## Notes#2"]);
+  });
+
+  test("ignores headings inside code fences", () => {
+    const sections = splitSections("# Title\n\n```sh\n# comment\n```\n");
+    expect(sections).toHaveLength(1);
+  });
+});
+
+describe("mergeSections", () => {
+  const base = sectionHashes(BASE);
+
+  test("takes sections changed on either side", () => {
+    const ours = BASE.replace("Install it.", "Install it with bun.");
+    const theirs = BASE.replace("Run it.", "Run it twice.");
+    expect(mergeSections(ours, theirs, base)).toBe(
+      BASE.replace("Install it.", "Install it with bun.").replace(
+        "Run it.",
+        "Run it twice."
+      )
+    );
+  });
+
+  test("returns null when a section changed on both sides", () => {
+    const ours = BASE.replace("Run it.", "Run it once.");
+    const theirs = BASE.replace("Run it.", "Run it twice.");
+    expect(mergeSections(ours, theirs, base)).toBeNull();
+  });
+
+  test("returns null when a section was changed on one side and removed on the other", () => {
+    const ours = BASE.replace("Run it.", "Run it once.");
+    const theirs = BASE.replace("## Usage\n\nRun it.\n", "");
+    expect(mergeSections(ours, theirs, base)).toBeNull();
+  });
+
+  test("drops sections removed on one side and unchanged on the other", () => {
+    const theirs = BASE.replace("\n## Setup\n\nInstall it.\n", "");
+    expect(mergeSections(BASE, theirs, base)).toBe(theirs);
+  });
+
+  test("keeps added sections after the one they followed, a blank line apart", () => {
+    const theirs = BASE.replace(
+      "Install it.\n",
+      "Install it.\n\n## Config\n\nSet it up.\n"
+    );
+    const ours = BASE.replace("Run it.", "Run it now.");
+    expect(mergeSections(ours, theirs, base)).toBe(
+      theirs.replace("Run it.", "Run it now.")
+    );
+  });
+
+  test("separates a section that lost its trailing blank line", () => {
+    const ours = BASE.replace("Install it.\n\n", "Install it.\n");
+    const theirs = BASE.replace("Run it.", "Run it twice.");
+    expect(mergeSections(ours, theirs, base)).toBe(
+      BASE.replace("Run it.", "Run it twice.")
+    );
+  });
+});
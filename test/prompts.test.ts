@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  toClaudePlaceholders,
+  toCodexPlaceholders,
+} from "../adapters/prompts.ts";
+import { sync, type SyncOptions } from "../sync.ts";
+
+const COMMAND =
+  "Deploy $ARGUMENTS to $1 as $USER, costs $$5 and $ENV, price $price.\n";
+
+describe("placeholders", () => {
+  test("escape every $NAME Claude would leave as text", () => {
+    expect(toCodexPlaceholders(COMMAND)).toBe(
+      "Deploy $ARGUMENTS to $1 as $$USER, costs $$$$5 and $$ENV, price $price.\n"
+    );
+  });
+
+  test("keep names declared in argument-hint", () => {
+    expect(toCodexPlaceholders("Run on $ENV as $USER", "ENV=<env>")).toBe(
+      "Run on $ENV as $$USER"
+    );
+  });
+
+  test("come back unchanged", () => {
+    expect(toClaudePlaceholders(toCodexPlaceholders(COMMAND))).toBe(COMMAND);
+    expect(
+      toClaudePlaceholders(toCodexPlaceholders(COMMAND, "USER=<name>"))
+    ).toBe(COMMAND);
+  });
+});
+
+describe("command round trip", () => {
+  let root: string;
+  let options: SyncOptions;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "sync-agents-prompts-"));
+    options = {
+      claudeDir: join(root, ".claude"),
+      agentsSkillsDir: join(root, ".agents/skills"),
+      codexSkillsDir: join(root, ".codex/skills"),
+      dryRun: false,
+      cwd: root,
+      syncLocal: false,
+      targets: ["codex-prompts"],
+    };
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("flattens namespaced commands and brings edits back", async () => {
+    const claudeFile = join(options.claudeDir, "commands/ops/deploy.md");
+    await Bun.write(
+      claudeFile,
+      `---\ndescription: Deploy\nargument-hint: ENV=<env>\n---\n\n${COMMAND}`
+    );
+    await sync(options);
+
+    const promptFile = join(root, ".codex/prompts/ops-deploy.md");
+    const prompt = await readFile(promptFile, "utf-8");
+    expect(prompt).toContain("as $$USER, costs $$$$5 and $ENV,");
+
+    await Bun.write(
+      promptFile,
+      prompt.replace("Deploy $ARGUMENTS", "Ship $ARGUMENTS")
+    );
+    await sync(options);
+    expect(await readFile(claudeFile, "utf-8")).toContain(
+      COMMAND.replace("Deploy", "Ship")
+    );
+  });
+});
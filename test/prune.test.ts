@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { sync, type SyncOptions } from "../sync.ts";
+
+describe("prune", () => {
+  let root: string;
+  let options: SyncOptions;
+  let claudeSkill: string;
+  let agentsSkill: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "sync-agents-prune-"));
+    options = {
+      claudeDir: join(root, ".claude"),
+      agentsSkillsDir: join(root, ".agents/skills"),
+      codexSkillsDir: join(root, ".codex/skills"),
+      dryRun: false,
+      cwd: root,
+      syncLocal: false,
+      targets: ["agents"],
+    };
+    claudeSkill = join(options.claudeDir, "skills/old");
+    agentsSkill = join(options.agentsSkillsDir, "old");
+    await Bun.write(
+      join(claudeSkill, "SKILL.md"),
+      "---\nname: old\ndescription: Old\n---\n\nOld skill.\n"
+    );
+    await sync(options);
+    await rm(claudeSkill, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test("keeps the copy but never brings it back without --prune", async () => {
+    const result = await sync(options);
+    expect(result.pruned).toEqual([]);
+    expect(result.toClaude.skills).toEqual([]);
+    expect(existsSync(agentsSkill)).toBe(true);
+    expect(existsSync(claudeSkill)).toBe(false);
+  });
+
+  test("removes the generated copy with --prune", async () => {
+    const result = await sync({ ...options, prune: true });
+    expect(result.pruned).toMatchObject([
+      { name: "old", kind: "skill", target: "agents", path: agentsSkill },
+    ]);
+    expect(existsSync(agentsSkill)).toBe(false);
+  });
+
+  test("reports a copy edited since the last sync instead of removing it", async () => {
+    const skillMd = join(agentsSkill, "SKILL.md");
+    const edited = (await readFile(skillMd, "utf-8")) + "\nStill useful.\n";
+    await Bun.write(skillMd, edited);
+
+    const result = await sync({ ...options, prune: true });
+    expect(result.pruned).toEqual([]);
+    expect(result.conflicts).toMatchObject([
+      { name: "old", reason: "deleted-in-claude" },
+    ]);
+    expect(await readFile(skillMd, "utf-8")).toBe(edited);
+  });
+
+  test("only reports what it would remove in a dry run", async () => {
+    const result = await sync({ ...options, prune: true, dryRun: true });
+    expect(result.pruned.map((item) => item.name)).toEqual(["old"]);
+    expect(existsSync(agentsSkill)).toBe(true);
+  });
+});
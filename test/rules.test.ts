@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyRules,
+  DEFAULT_RULES,
+  restoreRules,
+  validateRules,
+  type RewriteRule,
+} from "../adapters/rules.ts";
+
+describe("applyRules", () => {
+  test("rewrites tool references with the default rules", () => {
+    expect(
+      applyRules(
+        "Use the Read tool, then `Grep`.",
+        DEFAULT_RULES,
+        "agents",
+        "to-agents"
+      )
+    ).toBe("Read the file, then content search.");
+  });
+
+  test("never turns the default rules back", () => {
+    const text = "Read the file, then content search.";
+    expect(applyRules(text, DEFAULT_RULES, "agents", "to-claude")).toBe(text);
+  });
+
+  test("undoes literal rules on the way back", () => {
+    const rules: RewriteRule[] = [{ from: "CLAUDE.md", to: "AGENTS.md" }];
+    const adapted = applyRules("See CLAUDE.md", rules, "agents", "to-agents");
+    expect(adapted).toBe("See AGENTS.md");
+    expect(applyRules(adapted, rules, "agents", "to-claude")).toBe(
+      "See CLAUDE.md"
+    );
+  });
+
+  test("matches literals on word boundaries and inserts $ verbatim", () => {
+    const rules: RewriteRule[] = [{ from: "cost", to: "$cost" }];
+    expect(applyRules("cost costly", rules, "agents", "to-agents")).toBe(
+      "$cost costly"
+    );
+  });
+
+  test("runs two-way regex rules backwards through their inverse", () => {
+    const rules: RewriteRule[] = [
+      {
+        type: "regex",
+        from: "claude-(\\w+)",
+        to: "agent-$1",
+        direction: "both",
+        inverse: { from: "agent-(\\w+)", to: "claude-$1" },
+      },
+      { type: "regex", from: "Opus", to: "the model" },
+    ];
+    const adapted = applyRules(
+      "claude-review on Opus",
+      rules,
+      "agents",
+      "to-agents"
+    );
+    expect(adapted).toBe("agent-review on the model");
+    expect(applyRules(adapted, rules, "agents", "to-claude")).toBe(
+      "claude-review on the model"
+    );
+  });
+
+  test("skips rules for other targets and directions", () => {
+    const rules: RewriteRule[] = [
+      { from: "alpha", to: "beta", targets: ["codex"] },
+      { from: "gamma", to: "delta", direction: "to-claude" },
+    ];
+    expect(applyRules("alpha gamma", rules, "agents", "to-agents")).toBe(
+      "alpha gamma"
+    );
+    expect(applyRules("alpha gamma", rules, "codex", "to-agents")).toBe(
+      "beta gamma"
+    );
+  });
+
+  test("unwinds chained rules in reverse order", () => {
+    const rules: RewriteRule[] = [
+      { from: "one", to: "two" },
+      { from: "two", to: "three" },
+    ];
+    expect(applyRules("one", rules, "agents", "to-agents")).toBe("three");
+    expect(applyRules("three", rules, "agents", "to-claude")).toBe("one");
+  });
+});
+
+describe("restoreRules", () => {
+  const original = "Use the Read tool.\n\nThen summarize it.\n";
+  const rendered = applyRules(original, DEFAULT_RULES, "agents", "to-agents");
+
+  test("keeps the Claude wording of lines left as rendered", () => {
+    const edited = rendered.replace("summarize", "condense");
+    expect(restoreRules(edited, original, DEFAULT_RULES, "agents")).toBe(
+      "Use the Read tool.\n\nThen condense it.\n"
+    );
+  });
+
+  test("takes edited and added lines from the target", () => {
+    const edited = rendered.replace("Read the file.", "Read the file twice.");
+    expect(
+      restoreRules(`${edited}Done.\n`, original, DEFAULT_RULES, "agents")
+    ).toBe("Read the file twice.\n\nThen summarize it.\nDone.\n");
+  });
+
+  test("undoes two-way rules on edited lines", () => {
+    const rules: RewriteRule[] = [{ from: "CLAUDE.md", to: "AGENTS.md" }];
+    expect(
+      restoreRules("See AGENTS.md first.", "See CLAUDE.md.", rules, "agents")
+    ).toBe("See CLAUDE.md first.");
+  });
+
+  test("falls back to the reverse rules without a Claude original", () => {
+    const rules: RewriteRule[] = [{ from: "CLAUDE.md", to: "AGENTS.md" }];
+    expect(restoreRules("See AGENTS.md", null, rules, "agents")).toBe(
+      "See CLAUDE.md"
+    );
+  });
+
+  test("falls back to the reverse rules when a rule spans lines", () => {
+    const rules: RewriteRule[] = [
+      { from: "a\nb", to: "ab", direction: "both" },
+    ];
+    expect(restoreRules("ab\nc", "a\nb\nc", rules, "agents")).toBe("a\nb\nc");
+  });
+});
+
+describe("validateRules", () => {
+  test("accepts the default rules", () => {
+    expect(() => validateRules(DEFAULT_RULES)).not.toThrow();
+  });
+
+  test("rejects rules without strings", () => {
+    expect(() =>
+      validateRules([{ from: "a" } as unknown as RewriteRule])
+    ).toThrow('Rewrite rule #1: "from" and "to" must be strings');
+  });
+
+  test("rejects unknown types and invalid patterns", () => {
+    expect(() =>
+      validateRules([{ type: "glob", from: "a", to: "b" } as never])
+    ).toThrow('unknown type "glob"');
+    expect(() =>
+      validateRules([{ type: "regex", from: "(", to: "b" }])
+    ).toThrow("Rewrite rule #1");
+  });
+});
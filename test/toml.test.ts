@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import { formatTomlValue, removeTomlTable, setTomlTable } from "../toml.ts";
+
+describe("formatTomlValue", () => {
+  test("formats strings, numbers, booleans and arrays", () => {
+    expect(formatTomlValue('say "hi"')).toBe('"say \\"hi\\""');
+    expect(formatTomlValue(3)).toBe("3");
+    expect(formatTomlValue(true)).toBe("true");
+    expect(formatTomlValue(["a", 1])).toBe('["a", 1]');
+  });
+
+  test("formats objects as inline tables and quotes keys that need it", () => {
+    expect(formatTomlValue({ PATH: "/bin", "my.key": "x" })).toBe(
+      '{ PATH = "/bin", "my.key" = "x" }'
+    );
+    expect(formatTomlValue({})).toBe("{}");
+  });
+});
+
+describe("setTomlTable", () => {
+  test("creates a missing table after its siblings", () => {
+    const source = [
+      'model = "o3"',
+      "",
+      "[mcp_servers.one]",
+      'command = "one"',
+      "",
+      "[profiles.default]",
+      'model = "o4"',
+      "",
+    ].join("\n");
+    expect(
+      setTomlTable(source, ["mcp_servers", "two"], { command: "two" }, [
+        "command",
+      ])
+    ).toBe(
+      [
+        'model = "o3"',
+        "",
+        "[mcp_servers.one]",
+        'command = "one"',
+        "",
+        "[mcp_servers.two]",
+        'command = "two"',
+        "",
+        "[profiles.default]",
+        'model = "o4"',
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("creates a table in an empty document", () => {
+    expect(
+      setTomlTable("", ["mcp_servers", "one"], { command: "one" }, [])
+    ).toBe('[mcp_servers.one]\ncommand = "one"\n');
+  });
+
+  test("replaces managed keys and keeps everything else", () => {
+    const source = [
+      "[mcp_servers.one]",
+      "# launched by npx",
+      'command = "old"',
+      "args = [",
+      '  "a",',
+      "]",
+      "startup_timeout_sec = 30",
+      "",
+    ].join("\n");
+    expect(
+      setTomlTable(
+        source,
+        ["mcp_servers", "one"],
+        { command: "npx", args: ["b"] },
+        ["command", "args", "env"]
+      )
+    ).toBe(
+      [
+        "[mcp_servers.one]",
+        'command = "npx"',
+        'args = ["b"]',
+        "# launched by npx",
+        "startup_timeout_sec = 30",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("drops managed keys written as sub-tables", () => {
+    const source = [
+      "[mcp_servers.one]",
+      'command = "one"',
+      "",
+      "[mcp_servers.one.env]",
+      'TOKEN = "x"',
+      "",
+    ].join("\n");
+    expect(
+      setTomlTable(source, ["mcp_servers", "one"], { command: "one" }, [
+        "command",
+        "env",
+      ])
+    ).toBe('[mcp_servers.one]\ncommand = "one"\n');
+  });
+});
+
+describe("tables without a header of their own", () => {
+  const inline = '[mcp_servers]\ndocs = { command = "npx" }\n';
+  const dotted = 'mcp_servers.docs.command = "npx"\n';
+  const error = "[mcp_servers.docs] is defined inline or with dotted keys";
+
+  test("are not defined a second time", () => {
+    for (const source of [inline, dotted]) {
+      expect(() =>
+        setTomlTable(source, ["mcp_servers", "docs"], { command: "uvx" }, [
+          "command",
+        ])
+      ).toThrow(error);
+    }
+  });
+
+  test("are not removed silently", () => {
+    for (const source of [inline, dotted]) {
+      expect(() => removeTomlTable(source, ["mcp_servers", "docs"])).toThrow(
+        error
+      );
+    }
+  });
+
+  test("can sit next to a new table", () => {
+    for (const source of [inline, dotted]) {
+      const output = setTomlTable(
+        source,
+        ["mcp_servers", "other"],
+        { command: "uvx" },
+        ["command"]
+      );
+      expect(Bun.TOML.parse(output)).toEqual({
+        mcp_servers: { docs: { command: "npx" }, other: { command: "uvx" } },
+      });
+    }
+  });
+
+  test("can't get a sub-table when the parent is inline", () => {
+    expect(() =>
+      setTomlTable(
+        'mcp_servers = { docs = { command = "npx" } }\n',
+        ["mcp_servers", "other"],
+        { command: "uvx" },
+        ["command"]
+      )
+    ).toThrow("[mcp_servers] is defined inline or with dotted keys");
+  });
+});
+
+describe("removeTomlTable", () => {
+  test("removes the table and its sub-tables only", () => {
+    const source = [
+      "[mcp_servers.one]",
+      'command = "one"',
+      "[mcp_servers.one.env]",
+      'TOKEN = "x"',
+      "[mcp_servers.two]",
+      'command = "two"',
+    ].join("\n");
+    expect(removeTomlTable(source, ["mcp_servers", "one"])).toBe(
+      '[mcp_servers.two]\ncommand = "two"'
+    );
+  });
+
+  test("handles quoted keys with dots", () => {
+    const source = '[mcp_servers."my.server"]\ncommand = "x"\n';
+    expect(removeTomlTable(source, ["mcp_servers", "my.server"])).toBe("");
+  });
+});
@@ -0,0 +1,200 @@
+const HEADER_RE = /^\s*\[([^[\]]+)\]\s*(?:#.*)?$/;
+const KEY_RE = /^\s*("(?:[^"\\]|\\.)*"|'[^']*'|[A-Za-z0-9_-]+)\s*=/;
+const BARE_KEY_RE = /^[A-Za-z0-9_-]+$/;
+const STRING_RE = /"(?:[^"\\]|\\.)*"|'[^']*'/g;
+
+export type TomlTable = Record<string, unknown>;
+
+function unquote(key: string): string {
+  if (key.startsWith('"')) return JSON.parse(key) as string;
+  if (key.startsWith("'")) return key.slice(1, -1);
+  return key;
+}
+
+// Dotted header or key, with quoted parts that may contain dots
+function parseKeyPath(text: string): string[] {
+  const parts = text.match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^.\s]+/g) ?? [];
+  return parts.map(unquote);
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, i) => part === b[i]);
+}
+
+function startsWith(path: string[], prefix: string[]): boolean {
+  return samePath(path.slice(0, prefix.length), prefix);
+}
+
+function formatKey(key: string): string {
+  return BARE_KEY_RE.test(key) ? key : JSON.stringify(key);
+}
+
+export function formatTomlValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatTomlValue).join(", ")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value).map(
+      ([key, entry]) => `${formatKey(key)} = ${formatTomlValue(entry)}`
+    );
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return JSON.stringify(String(value));
+}
+
+// Brackets still open at the end of a line, ignoring strings and comments
+function openBrackets(line: string): number {
+  const code = line.replace(STRING_RE, '""').replace(/#.*$/, "");
+  let depth = 0;
+  for (const char of code) {
+    if (char === "[" || char === "{") depth++;
+    if (char === "]" || char === "}") depth--;
+  }
+  return depth;
+}
+
+interface TableBlock {
+  path: string[];
+  // Line range from the header up to the next header
+  start: number;
+  end: number;
+}
+
+function tableBlocks(lines: string[]): TableBlock[] {
+  const blocks: TableBlock[] = [];
+  for (const [index, line] of lines.entries()) {
+    // Arrays of tables are never edited, they only end the block before
+    const isArrayHeader = line.trimStart().startsWith("[[");
+    const match = isArrayHeader ? null : line.match(HEADER_RE);
+    if (!match && !isArrayHeader) continue;
+    if (blocks.length > 0) blocks[blocks.length - 1]!.end = index;
+    blocks.push({
+      path: match ? parseKeyPath(match[1]!) : [],
+      start: index,
+      end: lines.length,
+    });
+  }
+  return blocks;
+}
+
+function formatPath(path: string[]): string {
+  return `[${path.map(formatKey).join(".")}]`;
+}
+
+// Tables written inline (`name = { ... }`) or with dotted keys
+// (`name.key = ...`) have no header of their own to edit
+function unsupportedTable(path: string[]): Error {
+  return new Error(
+    `${formatPath(path)} is defined inline or with dotted keys, write it as a table of its own to sync it`
+  );
+}
+
+function lookup(source: string, path: string[]): unknown {
+  let value: unknown = Bun.TOML.parse(source);
+  for (const part of path) value = (value as TomlTable | undefined)?.[part];
+  return value;
+}
+
+// An empty table header after the siblings of `path`, or at the end
+function insertTable(lines: string[], path: string[]): string {
+  const siblings = tableBlocks(lines).filter(
+    (block) => path.length > 1 && startsWith(block.path, path.slice(0, -1))
+  );
+  let at =
+    siblings.length > 0 ? siblings[siblings.length - 1]!.end : lines.length;
+  while (at > 0 && lines[at - 1]!.trim() === "") at--;
+  const before = lines.slice(0, at);
+  const after = lines.slice(at);
+  return [
+    ...before,
+    ...(before.length > 0 ? [""] : []),
+    formatPath(path),
+    ...(after.some((line) => line.trim() !== "") ? after : [""]),
+  ].join("\n");
+}
+
+/**
+ * Set the given keys of the table at `path`, creating the table after its
+ * siblings when it's missing. Every other line of the document, comments
+ * included, is kept as is. Keys listed in `managed` but missing from
+ * `values` are removed, along with sub-tables that define them. Throws when
+ * the table or its parent is defined inline or with dotted keys.
+ */
+export function setTomlTable(
+  source: string,
+  path: string[],
+  values: TomlTable,
+  managed: string[]
+): string {
+  const lines = source.split("\n");
+  const blocks = tableBlocks(lines);
+  const table = blocks.find((block) => samePath(block.path, path));
+  if (!table) {
+    if (lookup(source, path) !== undefined) throw unsupportedTable(path);
+    return setTomlTable(insertTable(lines, path), path, values, managed);
+  }
+
+  const assignments = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${formatKey(key)} = ${formatTomlValue(value)}`);
+
+  // Managed keys written as [path.key] tables would be defined twice
+  const dropped = blocks.filter(
+    (block) =>
+      block.path.length === path.length + 1 &&
+      startsWith(block.path, path) &&
+      managed.includes(block.path[path.length]!)
+  );
+
+  const output: string[] = [];
+  let skipping = 0;
+  for (const [index, line] of lines.entries()) {
+    if (dropped.some((block) => index >= block.start && index < block.end)) {
+      continue;
+    }
+    if (index > table.start && index < table.end) {
+      if (skipping > 0) {
+        skipping += openBrackets(line);
+        continue;
+      }
+      const key = line.match(KEY_RE)?.[1];
+      if (key !== undefined && managed.includes(unquote(key))) {
+        skipping = Math.max(openBrackets(line), 0);
+        continue;
+      }
+    }
+    output.push(line);
+    if (index === table.start) output.push(...assignments);
+  }
+  const result = output.join("\n");
+  try {
+    Bun.TOML.parse(result);
+  } catch {
+    // The header we added extends an inline parent table
+    throw unsupportedTable(path.slice(0, -1));
+  }
+  return result;
+}
+
+/**
+ * Remove the table at `path` and its sub-tables. Comments directly above
+ * the header are kept, since they may belong to the table before it.
+ * Throws when the table is defined inline or with dotted keys.
+ */
+export function removeTomlTable(source: string, path: string[]): string {
+  const lines = source.split("\n");
+  const removed = tableBlocks(lines).filter((block) =>
+    startsWith(block.path, path)
+  );
+  const result = lines
+    .filter(
+      (_line, index) =>
+        !removed.some((block) => index >= block.start && index < block.end)
+    )
+    .join("\n");
+  if (lookup(result, path) !== undefined) throw unsupportedTable(path);
+  return result;
+}
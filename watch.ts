@@ -0,0 +1,212 @@
+import { existsSync, watch as watchFs, type FSWatcher } from "fs";
+import { basename, join, sep } from "path";
+import { syncDocs } from "./docs.ts";
+import { hashPath } from "./manifest.ts";
+import {
+  findProjectRoot,
+  hasChanges,
+  planScopes,
+  syncItem,
+  withBackups,
+  type ScopeResult,
+  type ScopeRun,
+  type SyncConflict,
+  type SyncedDoc,
+  type SyncOptions,
+} from "./sync.ts";
+
+export interface WatchChange {
+  time: Date;
+  scope: "global" | "project" | "docs";
+  // Item name, or the doc file names for doc changes
+  name: string;
+  result?: ScopeResult;
+  docs?: SyncedDoc[];
+  // Docs changed on both sides
+  conflicts?: SyncConflict[];
+  error?: string;
+}
+
+export interface WatchOptions extends SyncOptions {
+  // Quiet period before a burst of edits to one item is synced
+  debounceMs?: number;
+  onChange(change: WatchChange): void;
+}
+
+interface WatchedDir {
+  path: string;
+  // Maps a path relative to the directory to the affected item
+  itemName(relativePath: string): string | null;
+  run: ScopeRun;
+}
+
+const DOCS_KEY = "docs";
+
+const skillName = (relativePath: string) => relativePath.split(sep)[0] || null;
+
+const agentName = (relativePath: string) => {
+  const [file] = relativePath.split(sep);
+  return file?.endsWith(".md") ? basename(file, ".md") : null;
+};
+
+// Commands keep their subfolder as a namespace
+const commandName = (relativePath: string) =>
+  relativePath.endsWith(".md")
+    ? relativePath.slice(0, -".md".length).split(sep).join("/")
+    : null;
+
+function watchedDirs(run: ScopeRun): WatchedDir[] {
+  const { ctx } = run;
+  const dirs: WatchedDir[] = [
+    { path: join(ctx.claudeDir, "skills"), itemName: skillName, run },
+    { path: join(ctx.claudeDir, "agents"), itemName: agentName, run },
+    { path: join(ctx.claudeDir, "commands"), itemName: commandName, run },
+    { path: ctx.agentsSkillsDir, itemName: skillName, run },
+  ];
+  if (run.adapters.some((adapter) => adapter.migrate)) {
+    dirs.push({ path: ctx.codexSkillsDir, itemName: skillName, run });
+  }
+  return dirs;
+}
+
+// Every path an item can live at in one scope
+function itemPaths(run: ScopeRun, name: string): string[] {
+  const { ctx } = run;
+  const paths = [
+    join(ctx.claudeDir, "skills", name),
+    join(ctx.claudeDir, "agents", `${name}.md`),
+    join(ctx.claudeDir, "commands", `${name}.md`),
+    join(ctx.agentsSkillsDir, name),
+    join(ctx.codexSkillsDir, name),
+  ];
+  for (const adapter of run.adapters) {
+    if (adapter.outputPath) paths.push(adapter.outputPath(name, ctx));
+  }
+  return [...new Set(paths)];
+}
+
+// Docs and the files they import can be any markdown outside hidden dirs
+function isDocSource(relativePath: string): boolean {
+  const [first] = relativePath.split(sep);
+  return (
+    relativePath.endsWith(".md") &&
+    !first!.startsWith(".") &&
+    first !== "node_modules"
+  );
+}
+
+async function fingerprint(paths: string[]): Promise<string> {
+  const hashes = await Promise.all(paths.map((path) => hashPath(path)));
+  return hashes.map((hash) => hash ?? "-").join("|");
+}
+
+/**
+ * Keep syncing as files change. Each burst of edits re-runs only the
+ * transforms of the affected item (or the doc sync), one at a time.
+ * Returns a function that stops watching.
+ */
+export async function watch(options: WatchOptions): Promise<() => void> {
+  const { debounceMs = 300, onChange, syncLocal = true } = options;
+  const cwd = options.cwd ?? process.cwd();
+
+  const runs = await planScopes(options);
+  const watchers: FSWatcher[] = [];
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Fingerprint of every path an item touches after its last sync; events
+  // that leave it unchanged (including our own writes) are ignored
+  const settled = new Map<string, string>();
+  let queue = Promise.resolve();
+
+  const report =
+    (scope: WatchChange["scope"], name: string) => (err: unknown) =>
+      onChange({ time: new Date(), scope, name, error: String(err) });
+
+  const handleItem = async (run: ScopeRun, name: string) => {
+    const key = `${run.ctx.scope}:${name}`;
+    const paths = itemPaths(run, name);
+    // Fingerprints throw too when a file goes away in the middle of a burst
+    try {
+      if ((await fingerprint(paths)) === settled.get(key)) return;
+      const { value: result } = await withBackups(options, () =>
+        syncItem(run, name, options)
+      );
+      if (hasChanges(result)) {
+        onChange({ time: new Date(), scope: run.ctx.scope, name, result });
+      }
+      settled.set(key, await fingerprint(paths));
+    } catch (err) {
+      report(run.ctx.scope, name)(err);
+    }
+  };
+
+  // Doc sync writes nothing when everything matches, so our own writes
+  // only cost one extra pass
+  const handleDocs = async () => {
+    try {
+      const {
+        value: { docs, conflicts },
+      } = await withBackups(options, () => syncDocs(options));
+      if (docs.length + conflicts.length > 0) {
+        onChange({
+          time: new Date(),
+          scope: "docs",
+          name: [...docs, ...conflicts].map((doc) => doc.name).join(", "),
+          docs,
+          conflicts,
+        });
+      }
+    } catch (err) {
+      report("docs", "CLAUDE.md")(err);
+    }
+  };
+
+  // A failed handler must not stop the ones queued after it
+  const schedule = (
+    key: string,
+    handler: () => Promise<void>,
+    onError: (err: unknown) => void
+  ) => {
+    clearTimeout(timers.get(key));
+    timers.set(
+      key,
+      setTimeout(() => {
+        timers.delete(key);
+        queue = queue.then(handler).catch(onError);
+      }, debounceMs)
+    );
+  };
+
+  for (const run of runs) {
+    for (const dir of watchedDirs(run)) {
+      if (!existsSync(dir.path)) continue;
+      watchers.push(
+        watchFs(dir.path, { recursive: true }, (_event, filename) => {
+          if (!filename) return;
+          const name = dir.itemName(filename.toString());
+          if (!name || name.startsWith(".")) return;
+          schedule(
+            `${run.ctx.scope}:${name}`,
+            () => handleItem(run, name),
+            report(run.ctx.scope, name)
+          );
+        })
+      );
+    }
+  }
+
+  if (syncLocal) {
+    const root = options.projectRoot ?? (await findProjectRoot(cwd));
+    watchers.push(
+      watchFs(root, { recursive: true }, (_event, filename) => {
+        if (filename && isDocSource(filename.toString())) {
+          schedule(DOCS_KEY, handleDocs, report("docs", "CLAUDE.md"));
+        }
+      })
+    );
+  }
+
+  return () => {
+    for (const timer of timers.values()) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}